@@ -0,0 +1,164 @@
+/**
+ * Mock OpenID Connect provider for local SSO testing.
+ *
+ *   npm run oidc:mock
+ *
+ * Then configure an organization with
+ *   PUT /api/organizations/current/sso
+ *   { "enabled": true, "issuer": "http://localhost:9400", "clientId": "dataverse",
+ *     "roleMappings": [{ "group": "dataverse-admins", "role": "admin" }] }
+ *
+ * The authorize page asks for the email, name and groups to put in the ID
+ * token. Passing `email` (and optionally `name`, `groups`) as query parameters
+ * skips the form, which is handy with curl.
+ */
+import crypto from 'crypto';
+import express, { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+
+const port = Number(process.env.MOCK_OIDC_PORT) || 9400;
+const issuer = process.env.MOCK_OIDC_ISSUER || `http://localhost:${port}`;
+const clientId = process.env.MOCK_OIDC_CLIENT_ID || 'dataverse';
+const clientSecret = process.env.MOCK_OIDC_CLIENT_SECRET;
+
+const keyId = 'mock-oidc-key';
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  claims: Record<string, unknown>;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req: Request, res: Response) => {
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: ['openid', 'email', 'profile', 'groups']
+  });
+});
+
+app.get('/jwks', (req: Request, res: Response) => {
+  res.json({
+    keys: [{ ...publicKey.export({ format: 'jwk' }), kid: keyId, use: 'sig', alg: 'RS256' }]
+  });
+});
+
+app.get('/authorize', (req: Request, res: Response) => {
+  const params = req.query as Record<string, string>;
+
+  if (params.response_type !== 'code' || params.client_id !== clientId || !params.redirect_uri) {
+    res.status(400).send('Invalid authorization request');
+    return;
+  }
+
+  if (!params.code_challenge || params.code_challenge_method !== 'S256') {
+    res.status(400).send('PKCE with S256 is required');
+    return;
+  }
+
+  if (params.email) {
+    approve(res, params);
+    return;
+  }
+
+  const hidden = ['redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(params[name] || '')}">`)
+    .join('');
+
+  res.send(`<!doctype html>
+<title>Mock OIDC sign-in</title>
+<form method="post" action="/authorize">
+  ${hidden}
+  <p><label>Email <input name="email" type="email" required></label></p>
+  <p><label>Name <input name="name"></label></p>
+  <p><label>Groups (comma separated) <input name="groups"></label></p>
+  <button type="submit">Sign in</button>
+</form>`);
+});
+
+app.post('/authorize', (req: Request, res: Response) => {
+  approve(res, req.body);
+});
+
+app.post('/token', (req: Request, res: Response) => {
+  const { grant_type, code, redirect_uri, code_verifier } = req.body;
+
+  if (req.body.client_id !== clientId || (clientSecret && req.body.client_secret !== clientSecret)) {
+    res.status(401).json({ error: 'invalid_client' });
+    return;
+  }
+
+  const pending = codes.get(code);
+  codes.delete(code);
+
+  if (grant_type !== 'authorization_code' || !pending || pending.expiresAt < Date.now()) {
+    res.status(400).json({ error: 'invalid_grant' });
+    return;
+  }
+
+  const challenge = crypto.createHash('sha256').update(code_verifier || '').digest('base64url');
+  if (pending.redirectUri !== redirect_uri || pending.codeChallenge !== challenge) {
+    res.status(400).json({ error: 'invalid_grant' });
+    return;
+  }
+
+  const idToken = jwt.sign(
+    { ...pending.claims, nonce: pending.nonce },
+    privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    { algorithm: 'RS256', keyid: keyId, issuer, audience: clientId, expiresIn: '5m' }
+  );
+
+  res.json({
+    access_token: crypto.randomBytes(16).toString('hex'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken
+  });
+});
+
+function approve(res: Response, params: Record<string, string>): void {
+  const email = params.email.trim().toLowerCase();
+  const code = crypto.randomBytes(16).toString('hex');
+
+  codes.set(code, {
+    redirectUri: params.redirect_uri,
+    codeChallenge: params.code_challenge,
+    nonce: params.nonce,
+    claims: {
+      sub: crypto.createHash('sha256').update(email).digest('hex').slice(0, 24),
+      email,
+      email_verified: true,
+      name: params.name || email.split('@')[0],
+      groups: (params.groups || '').split(',').map(group => group.trim()).filter(Boolean)
+    },
+    expiresAt: Date.now() + 60 * 1000
+  });
+
+  const redirect = new URL(params.redirect_uri);
+  redirect.searchParams.set('code', code);
+  if (params.state) redirect.searchParams.set('state', params.state);
+
+  res.redirect(redirect.toString());
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+app.listen(port, () => {
+  console.log(`Mock OIDC provider running at ${issuer} (client_id: ${clientId})`);
+});
@@ -2,16 +2,42 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { User } from '../models/User';
 import { Organization } from '../models/Organization';
-import { AuthRequest, TokenPayload } from '../types';
+import { Session } from '../models/Session';
+import { ApiToken } from '../models/ApiToken';
+import { AuthRequest, IUser, MemberRole, TokenPayload } from '../types';
+import { TokenService, SessionMetadata } from '../services/token.service';
+import { TwoFactorService } from '../services/two-factor.service';
+import { EncryptionService } from '../services/encryption.service';
+import { MailService } from '../services/mail.service';
+import { ApiTokenService } from '../services/api-token.service';
+import { OidcService } from '../services/oidc.service';
+import { LoginProtectionService } from '../services/login-protection.service';
+import { AccountService } from '../services/account.service';
+import { MembershipService } from '../services/membership.service';
+import { InvitationService } from '../services/invitation.service';
+import { DomainService } from '../services/domain.service';
+import { EntitlementService } from '../services/entitlement.service';
 import { 
   AuthenticationError, 
+  AuthorizationError,
   ConflictError, 
   NotFoundError, 
+  RateLimitError,
   ValidationError 
 } from '../utils/errors';
 import { CONSTANTS } from '../utils/constants';
 import { logger } from '../utils/logger';
 
+const tokenService = new TokenService();
+const apiTokenService = new ApiTokenService();
+const oidcService = new OidcService();
+const loginProtection = new LoginProtectionService();
+const accountService = new AccountService();
+const membershipService = new MembershipService();
+const invitationService = new InvitationService();
+const domainService = new DomainService();
+const entitlementService = new EntitlementService();
+
 export const signup = async (
   req: Request,
   res: Response,
@@ -48,9 +74,18 @@ export const signup = async (
     user.organizations.push(organization._id);
     await user.save();
 
+    try {
+      await issueEmailVerification(user);
+    } catch (error) {
+      // The user can request another email later
+      logger.error(`Failed to send verification email to ${email}:`, error);
+    }
+
+    // Invitations sent before the account existed now show up for the user
+    const invitations = await invitationService.attachToUser(user);
+
     // Generate tokens
-    const accessToken = user.generateAccessToken();
-    const refreshToken = user.generateRefreshToken();
+    const { accessToken, refreshToken } = await tokenService.createSession(user, getSessionMetadata(req));
 
     logger.info(`New user registered: ${email}`);
 
@@ -62,13 +97,20 @@ export const signup = async (
           id: user._id,
           email: user.email,
           name: user.name,
-          profileImage: user.profileImage
+          profileImage: user.profileImage,
+          emailVerified: user.emailVerified
         },
         organization: {
           id: organization._id,
           name: organization.name,
           role: 'admin'
         },
+        pendingInvitations: invitations.map(invitation => ({
+          id: invitation._id,
+          organization: invitation.organizationId,
+          role: invitation.role,
+          expiresAt: invitation.expiresAt
+        })),
         accessToken,
         refreshToken
       }
@@ -92,46 +134,268 @@ export const login = async (
       throw new AuthenticationError(CONSTANTS.RESPONSE_MESSAGES.INVALID_CREDENTIALS);
     }
 
+    loginProtection.assertCanAttempt(user);
+
     // Check password
     const isPasswordValid = await user.comparePassword(password);
     if (!isPasswordValid) {
+      await loginProtection.recordFailure(user);
       throw new AuthenticationError(CONSTANTS.RESPONSE_MESSAGES.INVALID_CREDENTIALS);
     }
 
-    // Update last login
-    user.lastLogin = new Date();
-    await user.save();
+    const ssoOnly = await Organization.exists({
+      _id: { $in: user.organizations },
+      'settings.sso.enabled': true,
+      'settings.sso.enforced': true
+    });
+    if (ssoOnly) {
+      throw new AuthorizationError('Password login is disabled for your organization. Sign in with SSO.');
+    }
 
-    // Get user's organizations
-    const organizations = await Organization.find({
-      _id: { $in: user.organizations }
+    if (user.twoFactor?.enabled) {
+      issueTwoFactorChallenge(res, user);
+      return;
+    }
+
+    await completeLogin(req, res, user);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyTwoFactorLogin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const decoded = jwt.verify(challengeToken, process.env.JWT_SECRET!) as any;
+    if (decoded.purpose !== 'two-factor') {
+      throw new AuthenticationError('Invalid two-factor challenge');
+    }
+
+    const user = await User.findById(decoded.userId)
+      .select('+twoFactor.secret +twoFactor.recoveryCodes +twoFactor.lastUsedStep');
+    if (!user || !user.twoFactor?.enabled || !user.twoFactor.secret) {
+      throw new AuthenticationError('Invalid two-factor challenge');
+    }
+
+    loginProtection.assertCanAttempt(user);
+
+    const twoFactorService = new TwoFactorService();
+
+    if (code) {
+      const step = twoFactorService.verifyCode(
+        twoFactorService.decryptSecret(user.twoFactor.secret),
+        code,
+        user.twoFactor.lastUsedStep
+      );
+      if (step === null) {
+        await loginProtection.recordFailure(user);
+        throw new AuthenticationError('Invalid two-factor code');
+      }
+      user.twoFactor.lastUsedStep = step;
+    } else {
+      const remaining = twoFactorService.redeemRecoveryCode(
+        user.twoFactor.recoveryCodes || [],
+        recoveryCode
+      );
+      if (!remaining) {
+        await loginProtection.recordFailure(user);
+        throw new AuthenticationError('Invalid recovery code');
+      }
+      user.twoFactor.recoveryCodes = remaining;
+      logger.warn(`Recovery code redeemed for: ${user.email} (${remaining.length} left)`);
+    }
+
+    await completeLogin(req, res, user);
+  } catch (error) {
+    if (error instanceof jwt.JsonWebTokenError) {
+      next(new AuthenticationError('Invalid or expired two-factor challenge'));
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const startSsoLogin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.body;
+
+    const organization = await Organization.findById(organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    const authorizationUrl = await oidcService.createAuthorizationUrl(organization, getSsoRedirectUri());
+
+    res.json({
+      success: true,
+      data: { authorizationUrl }
     });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Start linking an SSO identity to the signed-in account. The IdP redirects
+ * to the usual callback; the stored state says which account to link.
+ */
+export const startSsoLink = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.body;
 
-    // Generate tokens with first organization
-    const accessToken = user.generateAccessToken();
-    const refreshToken = user.generateRefreshToken();
+    const organization = await Organization.findById(organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
 
-    logger.info(`User logged in: ${email}`);
+    const authorizationUrl = await oidcService.createAuthorizationUrl(
+      organization,
+      getSsoRedirectUri(),
+      req.user!.userId
+    );
 
     res.json({
       success: true,
-      message: CONSTANTS.RESPONSE_MESSAGES.SUCCESS,
-      data: {
-        user: {
-          id: user._id,
-          email: user.email,
-          name: user.name,
-          profileImage: user.profileImage
-        },
-        organizations: organizations.map(org => ({
-          id: org._id,
-          name: org.name,
-          role: org.getMemberRole(user._id.toString())
-        })),
-        accessToken,
-        refreshToken
-      }
+      data: { authorizationUrl }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Finish an SSO login. Users are provisioned on first sign-in and their
+ * organization role follows the IdP groups on every sign-in. An existing
+ * account is linked by email only on a domain the organization verified;
+ * otherwise it has to be linked through startSsoLink. Users with two-factor
+ * enabled get the same challenge as a password login.
+ */
+export const completeSsoLogin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code, state } = req.body;
+
+    const loginState = await oidcService.consumeState(state);
+
+    const organization = await Organization.findById(loginState.organizationId)
+      .select('+settings.sso.clientSecret');
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    const claims = await oidcService.exchangeCode(organization, code, loginState);
+
+    const role = oidcService.resolveRole(organization.settings.sso!, claims);
+    if (!role) {
+      throw new AuthorizationError('Your identity provider groups do not grant access to this organization');
+    }
+
+    let user = await User.findOne({
+      ssoIdentities: { $elemMatch: { issuer: claims.iss, subject: claims.sub } }
     });
+
+    if (user && loginState.linkUserId && user._id.toString() !== loginState.linkUserId.toString()) {
+      throw new ConflictError('This identity is already linked to another account');
+    }
+
+    if (!user && loginState.linkUserId) {
+      user = await User.findById(loginState.linkUserId);
+      if (!user) {
+        throw new NotFoundError('User');
+      }
+
+      user.ssoIdentities.push({
+        issuer: claims.iss,
+        subject: claims.sub,
+        organizationId: organization._id.toString(),
+        lastLoginAt: new Date()
+      });
+      logger.info(`SSO identity linked for: ${user.email}`);
+    } else if (!user) {
+      if (!claims.email) {
+        throw new AuthenticationError('Identity provider did not return an email address');
+      }
+
+      user = await User.findOne({ email: claims.email.toLowerCase() });
+
+      // An IdP can assert any address, so only link on a domain this
+      // organization has proven it controls
+      if (user && (claims.email_verified !== true || !domainService.isVerifiedDomain(organization, user.email))) {
+        throw new AuthenticationError(
+          'An account with this email already exists. Sign in and link your SSO identity from your account.'
+        );
+      }
+
+      if (!user) {
+        user = new User({
+          email: claims.email,
+          name: claims.name || claims.email.split('@')[0],
+          password: new EncryptionService().generateRandomKey(32),
+          emailVerified: claims.email_verified === true,
+          emailVerifiedAt: claims.email_verified === true ? new Date() : null
+        });
+        logger.info(`User provisioned through SSO: ${claims.email}`);
+      }
+
+      user.ssoIdentities.push({
+        issuer: claims.iss,
+        subject: claims.sub,
+        organizationId: organization._id.toString(),
+        lastLoginAt: new Date()
+      });
+    } else {
+      const identity = user.ssoIdentities.find(
+        entry => entry.issuer === claims.iss && entry.subject === claims.sub
+      );
+      identity!.lastLoginAt = new Date();
+    }
+
+    const userId = user._id.toString();
+    const member = organization.members.find(entry => entry.userId.toString() === userId);
+
+    if (!member) {
+      await entitlementService.assertQuota(organization, 'members');
+      organization.members.push({ userId, role, joinedAt: new Date() });
+    } else if (userId !== organization.owner.toString()) {
+      member.role = role;
+    }
+    await organization.save();
+    await membershipService.invalidate(organization._id.toString(), userId);
+
+    const organizationId = organization._id.toString();
+    if (!user.organizations.some(id => id.toString() === organizationId)) {
+      user.organizations.push(organizationId);
+    }
+
+    // Newly provisioned accounts also join organizations that claim their domain
+    if (user.isNew) {
+      await user.save();
+      await domainService.autoJoin(user);
+    }
+
+    if (user.twoFactor?.enabled) {
+      await user.save();
+      issueTwoFactorChallenge(res, user);
+      return;
+    }
+
+    await completeLogin(req, res, user);
   } catch (error) {
     next(error);
   }
@@ -143,13 +407,25 @@ export const logout = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    // In a production app, you might want to blacklist the token
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      throw new ValidationError('Refresh token required');
+    }
+
+    // Revoke the session so neither token keeps working
+    await tokenService.revokeByRefreshToken(refreshToken);
+
     res.json({
       success: true,
       message: 'Logged out successfully'
     });
   } catch (error) {
-    next(error);
+    if (error instanceof jwt.JsonWebTokenError) {
+      next(new AuthenticationError('Invalid refresh token'));
+    } else {
+      next(error);
+    }
   }
 };
 
@@ -165,27 +441,14 @@ export const refreshToken = async (
       throw new AuthenticationError('Refresh token required');
     }
 
-    // Verify refresh token
-    const decoded = jwt.verify(
-      refreshToken,
-      process.env.JWT_REFRESH_SECRET!
-    ) as { userId: string };
-
-    // Get user
-    const user = await User.findById(decoded.userId);
-    if (!user) {
-      throw new AuthenticationError('Invalid refresh token');
-    }
-
-    // Generate new tokens
-    const newAccessToken = user.generateAccessToken();
-    const newRefreshToken = user.generateRefreshToken();
+    // Consume the refresh token and rotate to a new pair
+    const tokens = await tokenService.rotateRefreshToken(refreshToken, getSessionMetadata(req));
 
     res.json({
       success: true,
       data: {
-        accessToken: newAccessToken,
-        refreshToken: newRefreshToken
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken
       }
     });
   } catch (error) {
@@ -215,21 +478,28 @@ export const forgotPassword = async (
       return;
     }
 
-    // Generate reset token
-    const resetToken = jwt.sign(
-      { userId: user._id, purpose: 'password-reset' },
-      process.env.JWT_SECRET!,
-      { expiresIn: '1h' }
-    );
+    // Generate a single-use reset token; only its hash is stored
+    const encryptionService = new EncryptionService();
+    const resetToken = encryptionService.generateRandomKey(32);
+
+    user.passwordReset = {
+      tokenHash: encryptionService.hash(resetToken),
+      expiresAt: new Date(Date.now() + CONSTANTS.PASSWORD_RESET.TOKEN_TTL)
+    };
+    await user.save();
+
+    try {
+      await new MailService().sendPasswordReset(user.email, user.name, resetToken);
+    } catch (error) {
+      // Respond the same way so the endpoint cannot be used to probe accounts
+      logger.error(`Failed to send password reset email to ${email}:`, error);
+    }
 
-    // In production, send email with reset link
-    // For now, just return the token
     logger.info(`Password reset requested for: ${email}`);
 
     res.json({
       success: true,
-      message: 'Password reset instructions sent to email',
-      ...(process.env.NODE_ENV === 'development' && { resetToken })
+      message: 'Password reset instructions sent to email'
     });
   } catch (error) {
     next(error);
@@ -248,21 +518,29 @@ export const resetPassword = async (
       throw new ValidationError('Token and new password required');
     }
 
-    // Verify token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-    if (decoded.purpose !== 'password-reset') {
-      throw new AuthenticationError('Invalid reset token');
-    }
-
-    // Update password
-    const user = await User.findById(decoded.userId);
+    const encryptionService = new EncryptionService();
+    const user = await User.findOne({
+      'passwordReset.tokenHash': encryptionService.hash(token),
+      'passwordReset.expiresAt': { $gt: new Date() }
+    });
     if (!user) {
-      throw new NotFoundError('User');
+      throw new AuthenticationError('Invalid or expired reset token');
     }
 
+    // Update password and burn the token so it cannot be replayed
     user.password = newPassword;
+    user.passwordReset = undefined;
+    // Proving control of the mailbox also lifts any lockout
+    user.loginSecurity = { failedAttempts: 0 };
     await user.save();
 
+    // Anyone holding the old password may have signed in somewhere
+    await tokenService.revokeAllForUser(user._id.toString(), 'password-reset');
+
+    new MailService().sendPasswordChanged(user.email, user.name).catch(error => {
+      logger.warn(`Failed to send password changed email to ${user.email}:`, error);
+    });
+
     logger.info(`Password reset successful for user: ${user.email}`);
 
     res.json({
@@ -270,11 +548,85 @@ export const resetPassword = async (
       message: 'Password reset successful'
     });
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      next(new AuthenticationError('Invalid or expired reset token'));
-    } else {
-      next(error);
+    next(error);
+  }
+};
+
+export const verifyEmail = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { token } = req.body;
+
+    const encryptionService = new EncryptionService();
+    const user = await User.findOne({
+      'emailVerification.tokenHash': encryptionService.hash(token),
+      'emailVerification.expiresAt': { $gt: new Date() }
+    });
+    if (!user) {
+      throw new AuthenticationError('Invalid or expired verification token');
+    }
+
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+    user.emailVerification = undefined;
+    await user.save();
+
+    const joined = await domainService.autoJoin(user);
+
+    logger.info(`Email verified for user: ${user.email}`);
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully',
+      data: {
+        joinedOrganizations: joined.map(org => ({
+          id: org._id,
+          name: org.name,
+          role: org.settings.autoJoin?.defaultRole
+        }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resendVerificationEmail = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user!.userId).select('+emailVerification.lastSentAt');
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (user.emailVerified) {
+      throw new ConflictError('Email is already verified');
+    }
+
+    const lastSentAt = user.emailVerification?.lastSentAt;
+    if (lastSentAt) {
+      const waitMs = lastSentAt.getTime() + CONSTANTS.EMAIL_VERIFICATION.RESEND_COOLDOWN - Date.now();
+      if (waitMs > 0) {
+        throw new RateLimitError(
+          `Please wait ${Math.ceil(waitMs / 1000)} seconds before requesting another verification email`
+        );
+      }
     }
+
+    await issueEmailVerification(user);
+
+    res.json({
+      success: true,
+      message: 'Verification email sent'
+    });
+  } catch (error) {
+    next(error);
   }
 };
 
@@ -302,7 +654,9 @@ export const getCurrentUser = async (
           name: user.name,
           profileImage: user.profileImage,
           createdAt: user.createdAt,
-          lastLogin: user.lastLogin
+          lastLogin: user.lastLogin,
+          emailVerified: user.emailVerified,
+          twoFactorEnabled: !!user.twoFactor?.enabled
         },
         organizations: organizations.map(org => ({
           id: org._id,
@@ -350,4 +704,538 @@ export const updateProfile = async (
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+export const exportAccountData = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const data = await accountService.buildExport(user);
+    const fileName = `dataverse-export-${user._id}-${new Date().toISOString().slice(0, 10)}.json`;
+
+    logger.info(`Account data exported for user: ${user.email}`);
+
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.json(data);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteAccount = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, sessionId } = req.user!;
+    const { password, transfers, deleteOrganizations } = req.body;
+
+    const user = await User.findById(userId).select('+password');
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (password) {
+      const isPasswordValid = await user.comparePassword(password);
+      if (!isPasswordValid) {
+        throw new AuthenticationError('Password is incorrect');
+      }
+    } else {
+      // SSO-provisioned accounts have no known password; a fresh sign-in stands in for it
+      const session = await Session.findById(sessionId);
+      const isFresh = !!session &&
+        Date.now() - session.createdAt.getTime() < CONSTANTS.ACCOUNT_DELETION.REAUTH_WINDOW;
+      if (!user.ssoIdentities.length || !isFresh) {
+        throw new AuthenticationError('Confirm your password to delete your account');
+      }
+    }
+
+    await accountService.deleteAccount(user, { transfers, deleteOrganizations });
+
+    logger.info(`Account deleted: ${user.email}`);
+
+    res.json({
+      success: true,
+      message: 'Your account has been deleted'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSessions = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, sessionId } = req.user!;
+
+    const sessions = await Session.find({
+      userId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() }
+    }).sort({ lastActiveAt: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        sessions: sessions.map(session => ({
+          id: session._id,
+          deviceName: session.deviceName,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          createdAt: session.createdAt,
+          lastActiveAt: session.lastActiveAt,
+          isCurrent: session._id.toString() === sessionId
+        })),
+        total: sessions.length
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeSession = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = req.user!;
+    const { id } = req.params;
+
+    const session = await Session.findOne({ _id: id, userId });
+    if (!session || !session.isActive()) {
+      throw new NotFoundError('Session');
+    }
+
+    await tokenService.revokeSession(id, 'revoked-by-user');
+
+    logger.info(`Session revoked: ${id} for user ${userId}`);
+
+    res.json({
+      success: true,
+      message: 'Session revoked successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeAllSessions = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, sessionId } = req.user!;
+    const keepCurrent = req.query.keepCurrent === 'true';
+
+    const revoked = await tokenService.revokeAllForUser(
+      userId,
+      'signed-out-everywhere',
+      keepCurrent ? sessionId : undefined
+    );
+
+    logger.info(`All sessions revoked for user ${userId} (${revoked} sessions)`);
+
+    res.json({
+      success: true,
+      message: 'Signed out of all sessions',
+      data: { revoked }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const setupTwoFactor = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (user.twoFactor?.enabled) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    const twoFactorService = new TwoFactorService();
+    const secret = twoFactorService.generateSecret();
+
+    // Kept pending until the user proves their app produces valid codes
+    user.twoFactor.pendingSecret = twoFactorService.encryptSecret(secret);
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      data: {
+        secret,
+        otpauthUri: twoFactorService.buildOtpAuthUri(secret, user.email)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const enableTwoFactor = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, sessionId } = req.user!;
+    const { code } = req.body;
+
+    const user = await User.findById(userId).select('+twoFactor.pendingSecret');
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (user.twoFactor?.enabled) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    if (!user.twoFactor?.pendingSecret) {
+      throw new ValidationError('Start two-factor setup first');
+    }
+
+    const twoFactorService = new TwoFactorService();
+    const step = twoFactorService.verifyCode(
+      twoFactorService.decryptSecret(user.twoFactor.pendingSecret),
+      code
+    );
+    if (step === null) {
+      throw new ValidationError('Invalid two-factor code');
+    }
+
+    const { codes, hashes } = twoFactorService.generateRecoveryCodes();
+
+    user.twoFactor.secret = user.twoFactor.pendingSecret;
+    user.twoFactor.pendingSecret = undefined;
+    user.twoFactor.recoveryCodes = hashes;
+    user.twoFactor.lastUsedStep = step;
+    user.twoFactor.enabled = true;
+    user.twoFactor.enabledAt = new Date();
+    await user.save();
+
+    // Sessions opened with only a password should not outlive enrollment
+    await tokenService.revokeAllForUser(userId, 'two-factor-enabled', sessionId);
+
+    logger.info(`Two-factor authentication enabled for user: ${user.email}`);
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe.',
+      data: { recoveryCodes: codes }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const disableTwoFactor = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { password, code } = req.body;
+
+    const user = await User.findById(req.user!.userId)
+      .select('+password +twoFactor.secret +twoFactor.lastUsedStep');
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (!user.twoFactor?.enabled || !user.twoFactor.secret) {
+      throw new ValidationError('Two-factor authentication is not enabled');
+    }
+
+    const isPasswordValid = await user.comparePassword(password);
+    if (!isPasswordValid) {
+      throw new AuthenticationError(CONSTANTS.RESPONSE_MESSAGES.INVALID_CREDENTIALS);
+    }
+
+    const twoFactorService = new TwoFactorService();
+    const step = twoFactorService.verifyCode(
+      twoFactorService.decryptSecret(user.twoFactor.secret),
+      code,
+      user.twoFactor.lastUsedStep
+    );
+    if (step === null) {
+      throw new AuthenticationError('Invalid two-factor code');
+    }
+
+    const enforcingOrganization = await Organization.findOne({
+      _id: { $in: user.organizations },
+      'settings.requireTwoFactor': true
+    });
+    if (enforcingOrganization) {
+      throw new AuthorizationError(
+        `Organization ${enforcingOrganization.name} requires two-factor authentication`
+      );
+    }
+
+    user.twoFactor.enabled = false;
+    user.twoFactor.secret = undefined;
+    user.twoFactor.recoveryCodes = [];
+    user.twoFactor.lastUsedStep = undefined;
+    user.twoFactor.enabledAt = undefined;
+    await user.save();
+
+    logger.info(`Two-factor authentication disabled for user: ${user.email}`);
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const regenerateRecoveryCodes = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    const user = await User.findById(req.user!.userId)
+      .select('+twoFactor.secret +twoFactor.lastUsedStep');
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (!user.twoFactor?.enabled || !user.twoFactor.secret) {
+      throw new ValidationError('Two-factor authentication is not enabled');
+    }
+
+    const twoFactorService = new TwoFactorService();
+    const step = twoFactorService.verifyCode(
+      twoFactorService.decryptSecret(user.twoFactor.secret),
+      code,
+      user.twoFactor.lastUsedStep
+    );
+    if (step === null) {
+      throw new AuthenticationError('Invalid two-factor code');
+    }
+
+    const { codes, hashes } = twoFactorService.generateRecoveryCodes();
+    user.twoFactor.recoveryCodes = hashes;
+    user.twoFactor.lastUsedStep = step;
+    await user.save();
+
+    logger.info(`Recovery codes regenerated for user: ${user.email}`);
+
+    res.json({
+      success: true,
+      message: 'Recovery codes regenerated. Previous codes no longer work.',
+      data: { recoveryCodes: codes }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getApiTokens = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = req.user!;
+
+    const tokens = await ApiToken.find({ userId, type: 'personal' })
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        tokens: tokens.map(token => apiTokenService.serialize(token)),
+        total: tokens.length
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createApiToken = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, organizationId } = req.user!;
+    const { name, role = 'viewer', projectIds = [], expiresInDays } = req.body;
+
+    const organization = await Organization.findById(organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    // A token can never do more than its owner
+    const memberRole = organization.members.find(
+      member => member.userId.toString() === userId
+    )?.role;
+    if (!memberRole || CONSTANTS.ROLE_LEVELS[role as MemberRole] > CONSTANTS.ROLE_LEVELS[memberRole]) {
+      throw new AuthorizationError(`Cannot issue a token with role ${role}`);
+    }
+
+    await apiTokenService.validateProjectScope(organizationId!, projectIds);
+
+    const { token, record } = await apiTokenService.createPersonalToken(
+      userId,
+      organizationId!,
+      { name, role, projectIds, expiresInDays }
+    );
+
+    logger.info(`Personal access token created: ${record._id} for user ${userId}`);
+
+    res.status(201).json({
+      success: true,
+      message: 'Token created. Copy it now, it will not be shown again.',
+      data: {
+        token,
+        apiToken: apiTokenService.serialize(record)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeApiToken = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = req.user!;
+    const { id } = req.params;
+
+    const token = await ApiToken.findOne({ _id: id, userId, type: 'personal' });
+    if (!token || token.revokedAt) {
+      throw new NotFoundError('API token');
+    }
+
+    await apiTokenService.revokeToken(id);
+
+    logger.info(`Personal access token revoked: ${id} for user ${userId}`);
+
+    res.json({
+      success: true,
+      message: 'Token revoked successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+async function issueEmailVerification(user: IUser): Promise<void> {
+  const encryptionService = new EncryptionService();
+  const token = encryptionService.generateRandomKey(32);
+
+  // Issuing a new token invalidates any earlier link
+  user.emailVerification = {
+    tokenHash: encryptionService.hash(token),
+    expiresAt: new Date(Date.now() + CONSTANTS.EMAIL_VERIFICATION.TOKEN_TTL),
+    lastSentAt: new Date()
+  };
+  await user.save();
+
+  await new MailService().sendEmailVerification(user.email, user.name, token);
+}
+
+/**
+ * Hold back tokens until the second factor is verified
+ */
+function issueTwoFactorChallenge(res: Response, user: IUser): void {
+  const challengeToken = jwt.sign(
+    { userId: user._id, purpose: 'two-factor' },
+    process.env.JWT_SECRET!,
+    { expiresIn: CONSTANTS.TWO_FACTOR.CHALLENGE_EXPIRE } as any
+  );
+
+  logger.info(`Two-factor challenge issued for: ${user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Two-factor authentication required',
+    data: {
+      twoFactorRequired: true,
+      challengeToken
+    }
+  });
+}
+
+async function completeLogin(req: Request, res: Response, user: IUser): Promise<void> {
+  await loginProtection.recordSuccess(user);
+
+  // Update last login
+  user.lastLogin = new Date();
+  await user.save();
+
+  // Get user's organizations
+  const organizations = await Organization.find({
+    _id: { $in: user.organizations }
+  });
+
+  // Generate tokens with first organization
+  const { accessToken, refreshToken } = await tokenService.createSession(user, getSessionMetadata(req));
+
+  logger.info(`User logged in: ${user.email}`);
+
+  res.json({
+    success: true,
+    message: CONSTANTS.RESPONSE_MESSAGES.SUCCESS,
+    data: {
+      user: {
+        id: user._id,
+        email: user.email,
+        name: user.name,
+        profileImage: user.profileImage,
+        emailVerified: user.emailVerified
+      },
+      organizations: organizations.map(org => ({
+        id: org._id,
+        name: org.name,
+        role: org.getMemberRole(user._id.toString())
+      })),
+      accessToken,
+      refreshToken
+    }
+  });
+}
+
+function getSsoRedirectUri(): string {
+  return process.env.SSO_REDIRECT_URI ||
+    new URL('/sso/callback', process.env.CLIENT_URL || 'http://localhost:3000').toString();
+}
+
+function getSessionMetadata(req: Request): SessionMetadata {
+  return {
+    deviceName: typeof req.body?.deviceName === 'string' ? req.body.deviceName : undefined,
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip
+  };
+}
\ No newline at end of file
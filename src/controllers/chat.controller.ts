@@ -4,10 +4,13 @@ import { Project } from '../models/Project';
 import { ChatHistory } from '../models/ChatHistory';
 import { AIService } from '../services/ai.service';
 import { MongoDBService } from '../services/mongodb.service';
+import { ActivityService } from '../services/activity.service';
 import { NotFoundError, ValidationError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { CONSTANTS } from '../utils/constants';
 
+const activityService = new ActivityService();
+
 export const sendMessage = async (
   req: AuthRequest,
   res: Response,
@@ -38,7 +41,7 @@ export const sendMessage = async (
 
     // Initialize AI service
     const apiKey = project.getDecryptedApiKey() || process.env.GROQ_API_KEY;
-    const aiService = new AIService(apiKey!);
+    const aiService = new AIService(apiKey!, { organizationId: organizationId!, projectId, userId });
 
     // Get decrypted MongoDB URI for query execution
     const decryptedUri = project.getDecryptedUri();
@@ -49,7 +52,8 @@ export const sendMessage = async (
       message,
       project.schemaCache,
       recentHistory.reverse(),
-      decryptedUri
+      decryptedUri,
+      project.getConnectionOptions()
     );
     const executionTime = Date.now() - startTime;
 
@@ -123,7 +127,7 @@ export const streamMessage = async (
 
     // Initialize AI service
     const apiKey = project.getDecryptedApiKey() || process.env.GROQ_API_KEY;
-    const aiService = new AIService(apiKey!);
+    const aiService = new AIService(apiKey!, { organizationId: organizationId!, projectId, userId });
 
     let fullResponse = '';
     let metadata: any = {};
@@ -231,6 +235,12 @@ export const clearChatHistory = async (
 
     await ChatHistory.deleteMany({ projectId, userId });
 
+    await activityService.record(req, 'chat.history_cleared', {
+      type: 'project',
+      id: project._id,
+      name: project.name
+    });
+
     logger.info(`Chat history cleared for project ${projectId}`);
 
     res.json({
@@ -295,8 +305,14 @@ export const executeQuery = async (
       throw new NotFoundError('Project');
     }
 
+    // Queries run against the primary database unless another one of the project's is named
+    const database = query.database || project.databaseName;
+    if (!project.getDatabases().includes(database)) {
+      throw new ValidationError(`Database '${database}' is not part of this project`);
+    }
+
     const decryptedUri = project.getDecryptedUri();
-    const mongoService = new MongoDBService(decryptedUri);
+    const mongoService = new MongoDBService(decryptedUri, project.getConnectionOptions());
 
     await mongoService.connect();
 
@@ -306,7 +322,7 @@ export const executeQuery = async (
     switch (queryType) {
       case 'find':
         result = await mongoService.executeReadQuery(
-          project.databaseName,
+          database,
           query.collection,
           query.filter || {},
           query.options || {}
@@ -315,7 +331,7 @@ export const executeQuery = async (
 
       case 'aggregate':
         result = await mongoService.executeAggregation(
-          project.databaseName,
+          database,
           query.collection,
           query.pipeline || []
         );
@@ -323,7 +339,7 @@ export const executeQuery = async (
 
       case 'count':
         result = await mongoService.getCollectionCount(
-          project.databaseName,
+          database,
           query.collection
         );
         break;
@@ -336,12 +352,20 @@ export const executeQuery = async (
 
     const executionTime = Date.now() - startTime;
 
+    // Only the shape of the query is recorded, not the documents it returned
+    await activityService.record(req, 'query.executed', {
+      type: 'project',
+      id: project._id,
+      name: project.name
+    }, { metadata: { queryType, database, collection: query.collection, executionTime } });
+
     res.json({
       success: true,
       data: {
         result,
         executionTime,
         queryType,
+        database,
         collection: query.collection
       }
     });
@@ -0,0 +1,259 @@
+import { Response, NextFunction } from 'express';
+import { Invitation } from '../models/Invitation';
+import { Organization } from '../models/Organization';
+import { User } from '../models/User';
+import { AuthRequest, IInvitation, IUser } from '../types';
+import { InvitationService } from '../services/invitation.service';
+import { DomainService } from '../services/domain.service';
+import { ActivityService } from '../services/activity.service';
+import { AuthorizationError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const invitationService = new InvitationService();
+const domainService = new DomainService();
+const activityService = new ActivityService();
+
+export const getInvitations = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+
+    const invitations = await Invitation.find({ organizationId, status: 'pending' })
+      .populate('invitedBy', 'name email')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        invitations: invitations.map(serializeInvitation),
+        total: invitations.length
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resendInvitation = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId, userId } = req.user!;
+    const { id } = req.params;
+
+    const [invitation, organization, inviter] = await Promise.all([
+      Invitation.findOne({ _id: id, organizationId }),
+      Organization.findById(organizationId),
+      User.findById(userId)
+    ]);
+    if (!invitation) {
+      throw new NotFoundError('Invitation');
+    }
+    if (!organization || !inviter) {
+      throw new NotFoundError('Organization');
+    }
+
+    await invitationService.resend(invitation, organization, inviter);
+
+    await activityService.record(req, 'invitation.resent', {
+      type: 'invitation',
+      id: invitation._id,
+      name: invitation.email
+    });
+
+    logger.info(`Invitation resent: ${id} to ${invitation.email}`);
+
+    res.json({
+      success: true,
+      message: 'Invitation resent',
+      data: { invitation: serializeInvitation(invitation) }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeInvitation = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+    const { id } = req.params;
+
+    const invitation = await Invitation.findOne({ _id: id, organizationId });
+    if (!invitation) {
+      throw new NotFoundError('Invitation');
+    }
+
+    await invitationService.revoke(invitation);
+
+    await activityService.record(req, 'invitation.revoked', {
+      type: 'invitation',
+      id: invitation._id,
+      name: invitation.email
+    });
+
+    logger.info(`Invitation revoked: ${id} for ${invitation.email}`);
+
+    res.json({
+      success: true,
+      message: 'Invitation revoked'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getMyInvitations = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const invitations = await Invitation.find({
+      status: 'pending',
+      expiresAt: { $gt: new Date() },
+      $or: [{ userId: user._id }, { email: user.email }]
+    })
+      .populate('organizationId', 'name')
+      .populate('invitedBy', 'name email')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        invitations: invitations.map(serializeInvitation),
+        total: invitations.length
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const acceptInvitation = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { user, invitation } = await resolveInvitation(req);
+
+    const organization = await invitationService.accept(invitation, user);
+
+    await activityService.record(req, 'member.joined', { type: 'user', id: user._id, name: user.email }, {
+      organizationId: organization._id.toString(),
+      metadata: { invitationId: invitation._id, role: invitation.role }
+    });
+
+    logger.info(`Invitation accepted: ${invitation._id} by ${user.email}`);
+
+    res.json({
+      success: true,
+      message: `You joined ${organization.name}`,
+      data: {
+        organization: {
+          id: organization._id,
+          name: organization.name,
+          role: invitation.role
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const declineInvitation = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { user, invitation } = await resolveInvitation(req);
+
+    await invitationService.decline(invitation, user);
+
+    await activityService.record(req, 'invitation.declined', {
+      type: 'invitation',
+      id: invitation._id,
+      name: invitation.email
+    }, { organizationId: invitation.organizationId.toString() });
+
+    logger.info(`Invitation declined: ${invitation._id} by ${user.email}`);
+
+    res.json({
+      success: true,
+      message: 'Invitation declined'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Find the invitation a signed-in user is responding to, either by the
+ * emailed token or by id from their invitation list. Invitations are bound
+ * to an email address, so it has to be the user's own.
+ */
+async function resolveInvitation(req: AuthRequest): Promise<{ user: IUser; invitation: IInvitation }> {
+  const user = await User.findById(req.user!.userId);
+  if (!user) {
+    throw new NotFoundError('User');
+  }
+
+  let invitation: IInvitation;
+
+  if (req.params.id) {
+    const found = await Invitation.findById(req.params.id);
+    if (!found || !found.isPending() || found.email !== user.email) {
+      throw new NotFoundError('Invitation');
+    }
+    if (!user.emailVerified) {
+      throw new AuthorizationError('Verify your email address to respond to invitations');
+    }
+    invitation = found;
+  } else {
+    invitation = await invitationService.findByToken(req.body.token);
+    if (invitation.email !== user.email) {
+      throw new AuthorizationError('This invitation was sent to a different email address');
+    }
+
+    // Holding the emailed token proves control of the address
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save();
+      await domainService.autoJoin(user);
+    }
+  }
+
+  return { user, invitation };
+}
+
+function serializeInvitation(invitation: IInvitation) {
+  return {
+    id: invitation._id,
+    organization: invitation.organizationId,
+    email: invitation.email,
+    role: invitation.role,
+    invitedBy: invitation.invitedBy,
+    status: invitation.status,
+    expiresAt: invitation.expiresAt,
+    lastSentAt: invitation.lastSentAt,
+    isExpired: invitation.expiresAt <= new Date(),
+    createdAt: invitation.createdAt
+  };
+}
@@ -2,10 +2,36 @@ import { Response, NextFunction } from 'express';
 import { Organization } from '../models/Organization';
 import { User } from '../models/User';
 import { Project } from '../models/Project';
-import { AuthRequest } from '../types';
+import { ServiceAccount } from '../models/ServiceAccount';
+import { ApiToken } from '../models/ApiToken';
+import { Team } from '../models/Team';
+import { Role } from '../models/Role';
+import { AuthRequest, IOrganization, IUser, MemberRole, SsoSettings } from '../types';
 import { NotFoundError, ConflictError, AuthorizationError, ValidationError } from '../utils/errors';
 import { CONSTANTS } from '../utils/constants';
 import { logger } from '../utils/logger';
+import { ApiTokenService } from '../services/api-token.service';
+import { EncryptionService } from '../services/encryption.service';
+import { LoginProtectionService } from '../services/login-protection.service';
+import { MembershipService } from '../services/membership.service';
+import { InvitationService } from '../services/invitation.service';
+import { OrganizationService } from '../services/organization.service';
+import { DomainService } from '../services/domain.service';
+import { EntitlementService } from '../services/entitlement.service';
+import { ActivityService } from '../services/activity.service';
+import { UsageGroup, UsageService } from '../services/usage.service';
+import { BudgetService } from '../services/budget.service';
+
+const apiTokenService = new ApiTokenService();
+const loginProtection = new LoginProtectionService();
+const membershipService = new MembershipService();
+const invitationService = new InvitationService();
+const organizationService = new OrganizationService();
+const domainService = new DomainService();
+const entitlementService = new EntitlementService();
+const activityService = new ActivityService();
+const usageService = new UsageService();
+const budgetService = new BudgetService();
 
 export const createOrganization = async (
   req: AuthRequest,
@@ -31,6 +57,12 @@ export const createOrganization = async (
       $push: { organizations: organization._id }
     });
 
+    await activityService.record(req, 'organization.created', {
+      type: 'organization',
+      id: organization._id,
+      name
+    }, { organizationId: organization._id.toString() });
+
     logger.info(`Organization created: ${name} by user ${userId}`);
 
     res.status(201).json({
@@ -79,6 +111,7 @@ export const getOrganization = async (
           members: organization.members,
           settings: organization.settings,
           projectCount,
+          permissions: req.user!.permissions,
           createdAt: organization.createdAt
         }
       }
@@ -88,6 +121,30 @@ export const getOrganization = async (
   }
 };
 
+export const getUsage = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+
+    const organization = await Organization.findById(organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    const usage = await entitlementService.getSummary(organization);
+
+    res.json({
+      success: true,
+      data: { usage }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const updateOrganization = async (
   req: AuthRequest,
   res: Response,
@@ -102,13 +159,26 @@ export const updateOrganization = async (
       throw new NotFoundError('Organization');
     }
 
+    const before = { name: organization.name, ...organization.toObject().settings };
+
     if (name) organization.name = name;
     if (settings) {
-      organization.settings = { ...organization.settings, ...settings };
+      // SSO, domains and AI budgets have their own endpoints with their own checks;
+      // the plan and its overrides are not for admins to change
+      const { sso, verifiedDomains, autoJoin, aiBudget, plan, maxProjects, features, ...rest } = settings;
+      organization.settings = { ...organization.settings, ...rest };
     }
 
     await organization.save();
 
+    await activityService.record(req, 'organization.updated', {
+      type: 'organization',
+      id: organization._id,
+      name: organization.name
+    }, {
+      changes: activityService.diff(before, { name: organization.name, ...organization.toObject().settings })
+    });
+
     logger.info(`Organization updated: ${organization.name}`);
 
     res.json({
@@ -133,49 +203,43 @@ export const inviteMember = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { organizationId } = req.user!;
+    const { organizationId, userId } = req.user!;
     const { email, role } = req.body;
 
+    // members.invite alone must not be a way to hand out admin
+    membershipService.assertCanGrant(req.user!.permissions, membershipService.getRolePermissions(role));
+
     const organization = await Organization.findById(organizationId);
     if (!organization) {
       throw new NotFoundError('Organization');
     }
 
-    // Find user by email
-    const invitedUser = await User.findOne({ email });
-    if (!invitedUser) {
-      throw new NotFoundError('User with this email');
-    }
-
-    // Check if already a member
-    if (organization.isMember(invitedUser._id.toString())) {
-      throw new ConflictError('User is already a member');
+    const inviter = await User.findById(userId);
+    if (!inviter) {
+      throw new NotFoundError('User');
     }
 
-    // Add member
-    organization.members.push({
-      userId: invitedUser._id as any,
-      role,
-      joinedAt: new Date()
-    });
-    await organization.save();
+    // Nobody is added until they accept
+    const invitation = await invitationService.invite(organization, email, role, inviter);
 
-    // Update user's organizations
-    invitedUser.organizations.push(organization._id as any);
-    await invitedUser.save();
+    await activityService.record(req, 'member.invited', {
+      type: 'invitation',
+      id: invitation._id,
+      name: invitation.email
+    }, { metadata: { role } });
 
     logger.info(`Member invited to organization: ${email} as ${role}`);
 
-    res.json({
+    res.status(201).json({
       success: true,
-      message: 'Member invited successfully',
+      message: 'Invitation sent',
       data: {
-        member: {
-          userId: invitedUser._id,
-          email: invitedUser.email,
-          name: invitedUser.name,
-          role,
-          joinedAt: new Date()
+        invitation: {
+          id: invitation._id,
+          email: invitation.email,
+          role: invitation.role,
+          status: invitation.status,
+          expiresAt: invitation.expiresAt
         }
       }
     });
@@ -207,6 +271,17 @@ export const removeMember = async (
       throw new AuthorizationError('Cannot remove organization owner');
     }
 
+    const removed = organization.members.find(member => member.userId.toString() === userId);
+    if (!removed) {
+      throw new NotFoundError('Member');
+    }
+
+    // Only members whose access the caller could have granted can be removed
+    membershipService.assertCanGrant(
+      req.user!.permissions,
+      await membershipService.getPermissions(organizationId!, userId)
+    );
+
     // Remove member
     organization.members = organization.members.filter(
       member => member.userId.toString() !== userId
@@ -217,6 +292,12 @@ export const removeMember = async (
     await User.findByIdAndUpdate(userId, {
       $pull: { organizations: organizationId }
     });
+    await Team.updateMany({ organizationId }, { $pull: { members: userId } });
+    await membershipService.invalidate(organizationId!, userId);
+
+    await activityService.record(req, 'member.removed', { type: 'user', id: userId }, {
+      metadata: { role: removed.role }
+    });
 
     logger.info(`Member removed from organization: ${userId}`);
 
@@ -237,7 +318,7 @@ export const updateMemberRole = async (
   try {
     const { organizationId, userId: currentUserId } = req.user!;
     const { userId } = req.params;
-    const { role } = req.body;
+    const { role, customRoleId } = req.body;
 
     if (userId === currentUserId) {
       throw new ValidationError('Cannot change your own role');
@@ -261,10 +342,43 @@ export const updateMemberRole = async (
       throw new NotFoundError('Member');
     }
 
-    organization.members[memberIndex].role = role;
+    const member = organization.members[memberIndex];
+    const before = { role: member.role, customRoleId: member.customRoleId?.toString() || null };
+
+    // The caller must hold what the member has now, not only the new role
+    membershipService.assertCanGrant(
+      req.user!.permissions,
+      await membershipService.getPermissions(organizationId!, userId)
+    );
+
+    if (role) {
+      membershipService.assertCanGrant(req.user!.permissions, membershipService.getRolePermissions(role));
+      member.role = role;
+    }
+
+    // null moves the member back to the permissions of their built-in role
+    if (customRoleId !== undefined) {
+      if (customRoleId) {
+        const customRole = await Role.findOne({ _id: customRoleId, organizationId });
+        if (!customRole) {
+          throw new NotFoundError('Role');
+        }
+        membershipService.assertCanGrant(req.user!.permissions, customRole.permissions);
+      }
+      member.customRoleId = customRoleId;
+    }
+
     await organization.save();
+    await membershipService.invalidate(organizationId!, userId);
+
+    await activityService.record(req, 'member.role_changed', { type: 'user', id: userId }, {
+      changes: activityService.diff(before, {
+        role: member.role,
+        customRoleId: member.customRoleId?.toString() || null
+      })
+    });
 
-    logger.info(`Member role updated: ${userId} to ${role}`);
+    logger.info(`Member role updated: ${userId} to ${member.role}${member.customRoleId ? ` (custom role ${member.customRoleId})` : ''}`);
 
     res.json({
       success: true,
@@ -275,6 +389,42 @@ export const updateMemberRole = async (
   }
 };
 
+export const unlockMember = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId, userId: currentUserId } = req.user!;
+    const { userId } = req.params;
+
+    const organization = await Organization.findById(organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    if (!organization.members.some(member => member.userId.toString() === userId)) {
+      throw new NotFoundError('Member');
+    }
+
+    const unlocked = await loginProtection.unlock(userId);
+    if (!unlocked) {
+      throw new ValidationError('Account is not locked');
+    }
+
+    await activityService.record(req, 'member.unlocked', { type: 'user', id: userId });
+
+    logger.info(`Account unlocked: ${userId} by ${currentUserId}`);
+
+    res.json({
+      success: true,
+      message: 'Account unlocked successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const leaveOrganization = async (
   req: AuthRequest,
   res: Response,
@@ -303,6 +453,10 @@ export const leaveOrganization = async (
     await User.findByIdAndUpdate(userId, {
       $pull: { organizations: organizationId }
     });
+    await Team.updateMany({ organizationId }, { $pull: { members: userId } });
+    await membershipService.invalidate(organizationId!, userId);
+
+    await activityService.record(req, 'member.left', { type: 'user', id: userId });
 
     logger.info(`User left organization: ${userId} from ${organizationId}`);
 
@@ -315,32 +469,161 @@ export const leaveOrganization = async (
   }
 };
 
-export const getMembers = async (
+export const transferOwnership = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { organizationId } = req.user!;
+    const { organizationId, userId: currentUserId } = req.user!;
+    const { userId } = req.body;
 
-    const organization = await Organization.findById(organizationId)
-      .populate('members.userId', 'name email profileImage lastLogin');
+    const organization = await Organization.findById(organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    if (organization.owner.toString() !== currentUserId) {
+      throw new AuthorizationError('Only the organization owner can transfer ownership');
+    }
+
+    if (userId === currentUserId) {
+      throw new ValidationError('You already own this organization');
+    }
+
+    const member = organization.members.find(entry => entry.userId.toString() === userId);
+    if (!member) {
+      throw new NotFoundError('Member');
+    }
+    if (member.role !== 'admin') {
+      throw new ValidationError('Ownership can only be transferred to an admin');
+    }
+
+    organization.owner = userId;
+    await organization.save();
+
+    await activityService.record(req, 'organization.ownership_transferred', {
+      type: 'organization',
+      id: organization._id,
+      name: organization.name
+    }, { changes: [{ field: 'owner', from: currentUserId, to: userId }] });
+
+    logger.info(`Organization ownership transferred: ${organizationId} from ${currentUserId} to ${userId}`);
+
+    res.json({
+      success: true,
+      message: 'Ownership transferred successfully',
+      data: { owner: userId }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteOrganization = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId, userId } = req.user!;
+    const { confirmName } = req.body;
 
+    const organization = await Organization.findById(organizationId);
     if (!organization) {
       throw new NotFoundError('Organization');
     }
 
-    const members = organization.members.map(member => ({
-      id: member.userId,
-      role: member.role,
-      joinedAt: member.joinedAt
-    }));
+    if (organization.owner.toString() !== userId) {
+      throw new AuthorizationError('Only the organization owner can delete it');
+    }
+
+    if (confirmName !== organization.name) {
+      throw new ValidationError('Type the organization name to confirm deletion');
+    }
+
+    const scheduledFor = await organizationService.scheduleDeletion(organization, userId);
+
+    await activityService.record(req, 'organization.deletion_scheduled', {
+      type: 'organization',
+      id: organization._id,
+      name: organization.name
+    }, { metadata: { scheduledFor } });
+
+    logger.info(`Organization deletion requested: ${organizationId} by ${userId}`);
+
+    res.json({
+      success: true,
+      message: 'Organization scheduled for deletion',
+      data: { scheduledFor }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const restoreOrganization = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId, userId } = req.user!;
+
+    const organization = await Organization.findById(organizationId);
+    if (!organization || organization.deletion?.purgeStartedAt) {
+      throw new NotFoundError('Organization');
+    }
+
+    if (organization.owner.toString() !== userId) {
+      throw new AuthorizationError('Only the organization owner can restore it');
+    }
+
+    await organizationService.restore(organization);
+
+    await activityService.record(req, 'organization.restored', {
+      type: 'organization',
+      id: organization._id,
+      name: organization.name
+    });
+
+    logger.info(`Organization restored: ${organizationId} by ${userId}`);
+
+    res.json({
+      success: true,
+      message: 'Organization restored'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getActivity = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+    const { actor, action, from, to, cursor, limit } = req.query as Record<string, string | undefined>;
+
+    const { events, nextCursor } = await activityService.list(organizationId!, {
+      actor,
+      action,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      cursor,
+      limit: limit ? Number(limit) : undefined
+    });
 
     res.json({
       success: true,
       data: {
-        members,
-        total: members.length
+        events,
+        pagination: {
+          nextCursor,
+          hasMore: !!nextCursor
+        }
       }
     });
   } catch (error) {
@@ -348,49 +631,680 @@ export const getMembers = async (
   }
 };
 
-export const switchOrganization = async (
+/**
+ * AI token usage and cost estimates for the current calendar month unless
+ * a range is given
+ */
+export const getAiUsage = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { userId } = req.user!;
-    const { id } = req.params;
+    const { organizationId } = req.user!;
+    const { groupBy = 'member', from, to } = req.query as Record<string, string | undefined>;
 
-    const organization = await Organization.findById(id);
+    const now = new Date();
+    const start = from ? new Date(from) : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const end = to ? new Date(to) : now;
+    if (start > end) {
+      throw new ValidationError('from must be before to');
+    }
+
+    const report = await usageService.report(organizationId!, groupBy as UsageGroup, start, end);
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Configured AI budgets with this month's spend against them, including the
+ * caller's own member budget
+ */
+export const getAiBudget = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId, userId } = req.user!;
+
+    const organization = await Organization.findById(organizationId);
     if (!organization) {
       throw new NotFoundError('Organization');
     }
 
-    if (!organization.isMember(userId)) {
-      throw new AuthorizationError('Not a member of this organization');
-    }
+    res.json({
+      success: true,
+      data: {
+        budget: budgetService.getSettings(organization),
+        status: await budgetService.getStatus(organization, userId)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    const user = await User.findById(userId);
-    if (!user) {
-      throw new NotFoundError('User');
+export const updateAiBudget = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId, userId } = req.user!;
+
+    const organization = await Organization.findById(organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization');
     }
 
-    // Generate new token with updated organization
-    const accessToken = user.generateAccessToken();
-    const refreshToken = user.generateRefreshToken();
+    const before = budgetService.getSettings(organization);
+    const fields = ['monthlyTokens', 'monthlyCost', 'memberMonthlyTokens', 'memberMonthlyCost', 'warningThresholds'] as const;
 
-    logger.info(`User switched organization: ${userId} to ${id}`);
+    fields.forEach(field => {
+      if (req.body[field] !== undefined) {
+        organization.set(`settings.aiBudget.${field}`, req.body[field]);
+      }
+    });
+    // Warnings start over against the new limits
+    organization.set('budgetAlerts', undefined);
+
+    await organization.save();
+
+    const budget = budgetService.getSettings(organization);
+
+    await activityService.record(req, 'ai_budget.updated', {
+      type: 'organization',
+      id: organization._id,
+      name: organization.name
+    }, { changes: activityService.diff(before, budget) });
+
+    logger.info(`AI budget updated for organization: ${organizationId}`);
 
     res.json({
       success: true,
-      message: 'Organization switched successfully',
+      message: CONSTANTS.RESPONSE_MESSAGES.UPDATED,
       data: {
-        organization: {
-          id: organization._id,
-          name: organization.name,
-          role: organization.getMemberRole(userId)
-        },
-        accessToken,
-        refreshToken
+        budget,
+        status: await budgetService.getStatus(organization, userId)
       }
     });
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+export const getMembers = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+
+    const organization = await Organization.findById(organizationId)
+      .populate('members.userId', 'name email profileImage lastLogin loginSecurity.lockedUntil');
+
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    const members = organization.members.map(member => ({
+      id: member.userId,
+      role: member.role,
+      customRoleId: member.customRoleId || null,
+      joinedAt: member.joinedAt,
+      locked: loginProtection.isLocked(member.userId as unknown as IUser)
+    }));
+
+    res.json({
+      success: true,
+      data: {
+        members,
+        total: members.length
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const switchOrganization = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = req.user!;
+    const { id } = req.params;
+
+    const organization = await Organization.findById(id);
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    if (!organization.isMember(userId)) {
+      throw new AuthorizationError('Not a member of this organization');
+    }
+
+    // Tokens are not bound to an organization; the client sends the header
+    // with every request instead
+    logger.info(`User switched organization: ${userId} to ${id}`);
+
+    res.json({
+      success: true,
+      message: `Organization switched. Send ${CONSTANTS.ORGANIZATION_HEADER}: ${organization._id} with your requests.`,
+      data: {
+        organization: {
+          id: organization._id,
+          name: organization.name,
+          role: organization.getMemberRole(userId)
+        },
+        header: CONSTANTS.ORGANIZATION_HEADER
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getServiceAccounts = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+
+    const serviceAccounts = await ServiceAccount.find({ organizationId, disabledAt: null })
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        serviceAccounts,
+        total: serviceAccounts.length
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createServiceAccount = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId, userId } = req.user!;
+    const { name, description, role } = req.body;
+
+    membershipService.assertCanGrant(req.user!.permissions, membershipService.getRolePermissions(role));
+
+    const existing = await ServiceAccount.findOne({ organizationId, name });
+    if (existing) {
+      throw new ConflictError('A service account with this name already exists');
+    }
+
+    const serviceAccount = await ServiceAccount.create({
+      organizationId,
+      name,
+      description,
+      role,
+      createdBy: userId
+    });
+
+    await activityService.record(req, 'service_account.created', {
+      type: 'service_account',
+      id: serviceAccount._id,
+      name
+    }, { metadata: { role } });
+
+    logger.info(`Service account created: ${serviceAccount._id} in organization ${organizationId}`);
+
+    res.status(201).json({
+      success: true,
+      message: 'Service account created successfully',
+      data: { serviceAccount }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const disableServiceAccount = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+    const { id } = req.params;
+
+    const serviceAccount = await ServiceAccount.findOne({ _id: id, organizationId, disabledAt: null });
+    if (!serviceAccount) {
+      throw new NotFoundError('Service account');
+    }
+
+    serviceAccount.disabledAt = new Date();
+    await serviceAccount.save();
+    await apiTokenService.revokeServiceAccountTokens(id);
+
+    await activityService.record(req, 'service_account.disabled', {
+      type: 'service_account',
+      id,
+      name: serviceAccount.name
+    });
+
+    logger.info(`Service account disabled: ${id}`);
+
+    res.json({
+      success: true,
+      message: 'Service account disabled and its tokens revoked'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getServiceAccountTokens = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+    const { id } = req.params;
+
+    const serviceAccount = await ServiceAccount.findOne({ _id: id, organizationId });
+    if (!serviceAccount) {
+      throw new NotFoundError('Service account');
+    }
+
+    const tokens = await ApiToken.find({ serviceAccountId: id }).sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        tokens: tokens.map(token => apiTokenService.serialize(token)),
+        total: tokens.length
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createServiceAccountToken = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId, userId } = req.user!;
+    const { id } = req.params;
+    const { name, projectIds = [], expiresInDays } = req.body;
+
+    const serviceAccount = await ServiceAccount.findOne({ _id: id, organizationId, disabledAt: null });
+    if (!serviceAccount) {
+      throw new NotFoundError('Service account');
+    }
+
+    const role: MemberRole = req.body.role || serviceAccount.role;
+    if (CONSTANTS.ROLE_LEVELS[role] > CONSTANTS.ROLE_LEVELS[serviceAccount.role]) {
+      throw new ValidationError(`Token role cannot exceed the service account role (${serviceAccount.role})`);
+    }
+    // A service account created by an admin must not become a way around the caller's own role
+    membershipService.assertCanGrant(req.user!.permissions, membershipService.getRolePermissions(role));
+
+    await apiTokenService.validateProjectScope(organizationId!, projectIds);
+
+    const { token, record } = await apiTokenService.createServiceAccountToken(
+      serviceAccount,
+      userId,
+      { name, role, projectIds, expiresInDays }
+    );
+
+    await activityService.record(req, 'service_account.token_created', {
+      type: 'api_token',
+      id: record._id,
+      name
+    }, { metadata: { serviceAccountId: id, role, projectIds } });
+
+    logger.info(`Service account token created: ${record._id} for ${id}`);
+
+    res.status(201).json({
+      success: true,
+      message: 'Token created. Copy it now, it will not be shown again.',
+      data: {
+        token,
+        apiToken: apiTokenService.serialize(record)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeServiceAccountToken = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+    const { id, tokenId } = req.params;
+
+    const token = await ApiToken.findOne({ _id: tokenId, serviceAccountId: id, organizationId });
+    if (!token || token.revokedAt) {
+      throw new NotFoundError('API token');
+    }
+
+    await apiTokenService.revokeToken(tokenId);
+
+    await activityService.record(req, 'service_account.token_revoked', {
+      type: 'api_token',
+      id: tokenId,
+      name: token.name
+    }, { metadata: { serviceAccountId: id } });
+
+    logger.info(`Service account token revoked: ${tokenId} for ${id}`);
+
+    res.json({
+      success: true,
+      message: 'Token revoked successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSsoSettings = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+
+    const organization = await Organization.findById(organizationId)
+      .select('+settings.sso.clientSecret');
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    res.json({
+      success: true,
+      data: { sso: serializeSsoSettings(organization.settings.sso) }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateSsoSettings = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId, userId } = req.user!;
+    const { clientSecret, ...changes } = req.body;
+
+    const organization = await Organization.findById(organizationId)
+      .select('+settings.sso.clientSecret');
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    const before = serializeSsoSettings(organization.settings.sso);
+
+    const sso: SsoSettings = {
+      enabled: false,
+      enforced: false,
+      roleMappings: [],
+      ...organization.toObject().settings?.sso,
+      ...changes
+    };
+
+    if (clientSecret !== undefined) {
+      sso.clientSecret = clientSecret ? new EncryptionService().encrypt(clientSecret) : undefined;
+    }
+
+    if (sso.enabled && (!sso.issuer || !sso.clientId)) {
+      throw new ValidationError('issuer and clientId are required to enable single sign-on');
+    }
+
+    if (sso.enforced) {
+      if (!sso.enabled) {
+        throw new ValidationError('Single sign-on must be enabled before it can be enforced');
+      }
+
+      // Make sure the admin turning off passwords can still get in
+      const user = await User.findById(userId);
+      const hasIdentity = user?.ssoIdentities.some(
+        identity => identity.organizationId.toString() === organizationId && identity.issuer === sso.issuer
+      );
+      if (!hasIdentity) {
+        throw new ValidationError('Sign in with SSO at least once before enforcing it');
+      }
+    }
+
+    organization.set('settings.sso', sso);
+    await organization.save();
+
+    await activityService.record(req, 'sso.updated', {
+      type: 'organization',
+      id: organization._id,
+      name: organization.name
+    }, { changes: activityService.diff(before, serializeSsoSettings(organization.settings.sso)) });
+
+    logger.info(`SSO settings updated for organization: ${organizationId}`);
+
+    res.json({
+      success: true,
+      message: CONSTANTS.RESPONSE_MESSAGES.UPDATED,
+      data: { sso: serializeSsoSettings(organization.settings.sso) }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+function serializeSsoSettings(sso?: SsoSettings) {
+  return {
+    enabled: sso?.enabled || false,
+    enforced: sso?.enforced || false,
+    issuer: sso?.issuer || null,
+    clientId: sso?.clientId || null,
+    hasClientSecret: !!sso?.clientSecret,
+    scopes: sso?.scopes || CONSTANTS.SSO.DEFAULT_SCOPES,
+    groupsClaim: sso?.groupsClaim || CONSTANTS.SSO.DEFAULT_GROUPS_CLAIM,
+    roleMappings: sso?.roleMappings || [],
+    defaultRole: sso?.defaultRole || null
+  };
+}
+
+export const getDomains = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+
+    const organization = await Organization.findById(organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    res.json({
+      success: true,
+      data: serializeDomainSettings(organization)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addDomain = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+    const domain = req.body.domain.toLowerCase();
+
+    const organization = await Organization.findById(organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    await domainService.addDomain(organization, domain);
+
+    await activityService.record(req, 'domain.added', { type: 'domain', name: domain });
+
+    logger.info(`Domain added to organization ${organizationId}: ${domain}`);
+
+    res.status(201).json({
+      success: true,
+      message: 'Domain added. Publish the DNS record and verify it to enable auto-join.',
+      data: serializeDomainSettings(organization)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyDomain = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+    const domain = req.params.domain.toLowerCase();
+
+    const organization = await Organization.findById(organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    const verified = await domainService.verifyDomain(organization, domain);
+    if (!verified) {
+      throw new ValidationError('Verification record not found. DNS changes can take a while to propagate.');
+    }
+
+    await activityService.record(req, 'domain.verified', { type: 'domain', name: domain });
+
+    logger.info(`Domain verified for organization ${organizationId}: ${domain}`);
+
+    res.json({
+      success: true,
+      message: 'Domain verified',
+      data: serializeDomainSettings(organization)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeDomain = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+    const domain = req.params.domain.toLowerCase();
+
+    const organization = await Organization.findById(organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    await domainService.removeDomain(organization, domain);
+
+    await activityService.record(req, 'domain.removed', { type: 'domain', name: domain });
+
+    logger.info(`Domain removed from organization ${organizationId}: ${domain}`);
+
+    res.json({
+      success: true,
+      message: CONSTANTS.RESPONSE_MESSAGES.DELETED,
+      data: serializeDomainSettings(organization)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateAutoJoin = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+    const { enabled, defaultRole } = req.body;
+
+    const organization = await Organization.findById(organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    if (enabled) {
+      domainService.assertAutoJoinAllowed(organization);
+    }
+
+    const before = { ...organization.toObject().settings?.autoJoin };
+
+    organization.set('settings.autoJoin', {
+      enabled,
+      defaultRole: defaultRole || organization.settings.autoJoin?.defaultRole || 'viewer'
+    });
+    await organization.save();
+
+    await activityService.record(req, 'domain.auto_join_updated', {
+      type: 'organization',
+      id: organization._id,
+      name: organization.name
+    }, { changes: activityService.diff(before, { ...organization.toObject().settings?.autoJoin }) });
+
+    logger.info(`Auto-join ${enabled ? 'enabled' : 'disabled'} for organization ${organizationId}`);
+
+    res.json({
+      success: true,
+      message: CONSTANTS.RESPONSE_MESSAGES.UPDATED,
+      data: serializeDomainSettings(organization)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+function serializeDomainSettings(organization: IOrganization) {
+  const settings = organization.settings;
+
+  return {
+    allowedDomains: settings.allowedDomains || [],
+    verifiedDomains: (settings.verifiedDomains || []).map(entry => ({
+      domain: entry.domain,
+      verified: !!entry.verifiedAt,
+      verifiedAt: entry.verifiedAt,
+      record: entry.verifiedAt ? undefined : domainService.verificationRecord(entry.domain, entry.verificationToken)
+    })),
+    autoJoin: {
+      enabled: settings.autoJoin?.enabled || false,
+      defaultRole: settings.autoJoin?.defaultRole || 'viewer'
+    }
+  };
+}
\ No newline at end of file
@@ -1,15 +1,30 @@
+import crypto from 'crypto';
 import { Response, NextFunction } from 'express';
 import { Project } from '../models/Project';
-import { AuthRequest, PaginationQuery } from '../types';
-import { NotFoundError, ConflictError, ValidationError } from '../utils/errors';
+import { Organization } from '../models/Organization';
+import { Team } from '../models/Team';
+import { ActivityChange, AuthRequest, IProject, MongoConnectionOptions, ProjectListQuery } from '../types';
+import { NotFoundError, ConflictError, ValidationError, AuthorizationError } from '../utils/errors';
 import { MongoDBService, DatabaseInfo } from '../services/mongodb.service';
 import { SchemaService } from '../services/schema.service';
 import { CacheService } from '../services/cache.service';
+import { ProjectAccessService, projectStateFilter } from '../services/project-access.service';
+import { ProjectLifecycleService } from '../services/project-lifecycle.service';
+import { ProjectSearchService } from '../services/project-search.service';
+import { ActivityService } from '../services/activity.service';
+import { HealthCheckService } from '../services/health-check.service';
+import { ProjectBundleService } from '../services/project-bundle.service';
 import { CONSTANTS } from '../utils/constants';
 import { createStructuredLogger } from '../utils/logger';
 
 const log = createStructuredLogger('ProjectsController');
 const cacheService = new CacheService();
+const projectAccessService = new ProjectAccessService();
+const activityService = new ActivityService();
+const healthCheckService = new HealthCheckService();
+const projectBundleService = new ProjectBundleService();
+const projectLifecycleService = new ProjectLifecycleService();
+const projectSearchService = new ProjectSearchService();
 
 export const createProject = async (
   req: AuthRequest,
@@ -17,20 +32,26 @@ export const createProject = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { name, mongoUri, apiKey } = req.body;
-    const { userId, organizationId } = req.user!;
+    const { name, mongoUri, apiKey, tags, folder, databases: requestedDatabases } = req.body;
+    const { userId, organizationId, apiToken } = req.user!;
+    const connectionOptions = pickConnectionOptions(req.body.connectionOptions);
+
+    if (apiToken?.projectIds.length) {
+      throw new AuthorizationError('Project-scoped API tokens cannot create projects');
+    }
 
     // Validate MongoDB connection
-    const mongoService = new MongoDBService(mongoUri);
+    const mongoService = new MongoDBService(mongoUri, connectionOptions);
     const connectionInfo = await mongoService.validateConnection();
 
     if (!connectionInfo.isValid) {
       throw new ValidationError(connectionInfo.error || 'Invalid MongoDB connection');
     }
 
-    // Check for duplicate project name in organization
+    // Check for duplicate project name in organization; names in the trash are free again
     const existingProject = await Project.findOne({
       organizationId,
+      state: { $ne: 'deleted' },
       name: { $regex: new RegExp(`^${name}$`, 'i') }
     });
 
@@ -38,20 +59,32 @@ export const createProject = async (
       throw new ConflictError('Project name already exists in this organization');
     }
 
+    const databases = await resolveDatabases(mongoUri, connectionOptions, connectionInfo.databaseName!, requestedDatabases);
+
     // Create project
     const project = await Project.create({
       name,
       organizationId,
       mongoUri,
       encryptedApiKey: apiKey || null,
+      connectionOptions,
       databaseName: connectionInfo.databaseName!,
+      databases,
+      tags,
+      folder,
       createdBy: userId
     });
 
     // Extract schema synchronously on creation (blocking)
     const schemaService = new SchemaService();
     try {
-      const schema = await schemaService.extractAndCacheSchema(project._id.toString(), mongoUri, true);
+      const schema = await schemaService.extractAndCacheSchema(
+        project._id.toString(),
+        mongoUri,
+        true,
+        connectionOptions,
+        databases
+      );
       if (schema) {
         log.success(`Schema extracted successfully for project ${name}`);
       } else {
@@ -62,6 +95,12 @@ export const createProject = async (
       // Continue anyway - project is created, schema extraction can be retried
     }
 
+    await activityService.record(req, 'project.created', {
+      type: 'project',
+      id: project._id,
+      name
+    }, { metadata: { databaseName: project.databaseName, databases } });
+
     log.success(`Project created successfully: ${name} by user ${userId}`);
 
     res.status(201).json({
@@ -72,7 +111,11 @@ export const createProject = async (
           id: project._id,
           name: project.name,
           databaseName: project.databaseName,
+          databases: project.getDatabases(),
           connectionStatus: project.connectionStatus,
+          connectionOptions: serializeConnectionOptions(project),
+          tags: project.tags,
+          folder: project.folder,
           schema: project.schemaCache,
           createdAt: project.createdAt,
           lastAccessed: project.lastAccessed
@@ -90,30 +133,63 @@ export const getProjects = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { organizationId } = req.user!;
-    const { page = 1, limit = 10, sortBy = 'createdAt', order = 'desc' } = req.query as unknown as PaginationQuery;
+    const { userId, apiToken } = req.user!;
+    const listQuery = req.query as unknown as ProjectListQuery;
+    const { page = 1, limit = 10, sortBy = 'createdAt', order = 'desc', state = 'active' } = listQuery;
 
     const skip = (page - 1) * limit;
-    const sortOrder = order === 'asc' ? 1 : -1;
+
+    const filter: Record<string, any> = {
+      ...await projectAccessService.getAccessFilter(req.user!),
+      ...projectStateFilter(state)
+    };
+    if (apiToken?.projectIds.length) {
+      filter._id = { $in: apiToken.projectIds };
+    }
+
+    const conditions = projectSearchService.buildConditions(listQuery, userId);
+    if (conditions.length > 0) {
+      filter.$and = conditions;
+    }
+
+    const projectsQuery = Project.find(filter)
+      .sort(projectSearchService.buildSort(sortBy, order))
+      .skip(skip)
+      .limit(limit)
+      .select('-mongoUri -encryptedApiKey');
+    if (sortBy === 'name') {
+      // Alphabetical regardless of case
+      projectsQuery.collation({ locale: 'en', strength: 2 });
+    }
 
     const [projects, total] = await Promise.all([
-      Project.find({ organizationId })
-        .sort({ [sortBy!]: sortOrder })
-        .skip(skip)
-        .limit(limit)
-        .select('-mongoUri -encryptedApiKey'),
-      Project.countDocuments({ organizationId })
+      projectsQuery,
+      Project.countDocuments(filter)
     ]);
 
     const projectsWithStatus = projects.map(project => ({
       id: project._id,
       name: project.name,
       databaseName: project.databaseName,
+      databases: project.getDatabases(),
       connectionStatus: project.connectionStatus,
+      health: project.health?.checkedAt
+        ? {
+          status: project.health.status,
+          since: project.health.since,
+          checkedAt: project.health.checkedAt,
+          latencyMs: project.health.latencyMs ?? null
+        }
+        : null,
+      visibility: project.visibility || 'organization',
+      tags: project.tags || [],
+      folder: project.folder || null,
+      ...serializeLifecycle(project),
       lastAccessed: project.lastAccessed,
       createdAt: project.createdAt,
       hasSchema: !!project.schemaCache?.collections?.length,
-      collectionsCount: project.schemaCache?.collections?.length || 0
+      collectionsCount: project.schemaCache?.collections?.length || 0,
+      totalDocuments: project.schemaCache?.stats?.totalDocuments ?? null
     }));
 
     res.json({
@@ -165,8 +241,8 @@ export const getProjectById = async (
     });
 
     log.step(3, 3, 'Checking if schema needs refresh');
-    // Check if schema needs refresh (non-blocking)
-    if (project.needsSchemaRefresh()) {
+    // Check if schema needs refresh (non-blocking); archived and deleted projects are left alone
+    if ((project.state || 'active') === 'active' && project.needsSchemaRefresh()) {
       log.info('Schema refresh needed, triggering background extraction');
       const schemaService = new SchemaService();
       try {
@@ -175,7 +251,13 @@ export const getProjectById = async (
         if (freshProject) {
           const decryptedUri = freshProject.getDecryptedUri();
           if (decryptedUri) {
-            schemaService.extractAndCacheSchema(project._id.toString(), decryptedUri, true).catch(error => {
+            schemaService.extractAndCacheSchema(
+              project._id.toString(),
+              decryptedUri,
+              true,
+              freshProject.getConnectionOptions(),
+              freshProject.getDatabases()
+            ).catch(error => {
               log.warn('Failed to refresh schema:', error);
             });
           } else {
@@ -209,7 +291,12 @@ export const getProjectById = async (
           id: project._id,
           name: project.name,
           databaseName: project.databaseName,
+          databases: project.getDatabases(),
           connectionStatus: project.connectionStatus,
+          connectionOptions: serializeConnectionOptions(project),
+          tags: project.tags || [],
+          folder: project.folder || null,
+          ...serializeLifecycle(project),
           schema: project.schemaCache,
           schemaCache: project.schemaCache,
           lastAccessed: project.lastAccessed,
@@ -232,7 +319,7 @@ export const updateProject = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const { name, apiKey } = req.body;
+    const { name, apiKey, connectionOptions, tags, folder, databases } = req.body;
     const { organizationId } = req.user!;
 
     const project = await Project.findOne({
@@ -244,10 +331,15 @@ export const updateProject = async (
       throw new NotFoundError('Project');
     }
 
+    projectLifecycleService.assertActive(project);
+
+    const changes: ActivityChange[] = [];
+
     // Check for duplicate name if changing
     if (name && name !== project.name) {
       const duplicate = await Project.findOne({
         organizationId,
+        state: { $ne: 'deleted' },
         name: { $regex: new RegExp(`^${name}$`, 'i') },
         _id: { $ne: id }
       });
@@ -256,15 +348,82 @@ export const updateProject = async (
         throw new ConflictError('Project name already exists');
       }
 
+      changes.push({ field: 'name', from: project.name, to: name });
       project.name = name;
     }
 
     if (apiKey !== undefined) {
+      // Secrets are recorded as changed, never with their values
+      changes.push({ field: 'apiKey' });
       project.encryptedApiKey = apiKey;
     }
 
+    if (tags !== undefined || folder !== undefined) {
+      const before = { tags: [...(project.tags || [])], folder: project.folder || null };
+      if (tags !== undefined) project.tags = tags;
+      if (folder !== undefined) project.folder = folder;
+      changes.push(...activityService.diff(before, { tags: [...project.tags], folder: project.folder || null }));
+    }
+
+    if (connectionOptions !== undefined) {
+      const before: Record<string, any> = {
+        ...Object.fromEntries(CONNECTION_OPTION_FIELDS.map(field => [field, null])),
+        ...project.getConnectionOptions()
+      };
+      const after: Record<string, any> = { ...before, ...pickConnectionOptions(connectionOptions, true) };
+      const updated = pickConnectionOptions(after);
+
+      // Make sure the cluster still accepts the new settings before storing them
+      const connectionInfo = await new MongoDBService(project.getDecryptedUri(), updated).validateConnection();
+      if (!connectionInfo.isValid) {
+        throw new ValidationError(connectionInfo.error || 'Invalid MongoDB connection');
+      }
+
+      changes.push(...activityService
+        .diff(before, after, ['caCertificate', 'clientCertificate', 'clientKey', 'clientKeyPassphrase'])
+        .map(change => ({ ...change, field: `connectionOptions.${change.field}` })));
+      project.set('connectionOptions', updated);
+    }
+
+    let databasesChanged = false;
+    if (databases !== undefined) {
+      const before = project.getDatabases();
+      const after = await resolveDatabases(
+        project.getDecryptedUri(),
+        project.getConnectionOptions(),
+        project.databaseName,
+        databases
+      );
+      databasesChanged = JSON.stringify(before) !== JSON.stringify(after);
+      if (databasesChanged) {
+        changes.push({ field: 'databases', from: before, to: after });
+        project.databases = after;
+      }
+    }
+
     await project.save();
 
+    // The cached schema no longer covers the project's databases
+    if (databasesChanged) {
+      new SchemaService().extractAndCacheSchema(
+        project._id.toString(),
+        project.getDecryptedUri(),
+        true,
+        project.getConnectionOptions(),
+        project.getDatabases()
+      ).catch(error => {
+        log.warn(`Failed to extract schema for project ${project.name}:`, error);
+      });
+    }
+
+    if (changes.length > 0) {
+      await activityService.record(req, 'project.updated', {
+        type: 'project',
+        id: project._id,
+        name: project.name
+      }, { changes });
+    }
+
     log.info(`Project updated: ${project.name}`);
 
     res.json({
@@ -275,6 +434,10 @@ export const updateProject = async (
           id: project._id,
           name: project.name,
           databaseName: project.databaseName,
+          databases: project.getDatabases(),
+          connectionOptions: serializeConnectionOptions(project),
+          tags: project.tags,
+          folder: project.folder,
           updatedAt: project.updatedAt
         }
       }
@@ -293,7 +456,7 @@ export const deleteProject = async (
     const { id } = req.params;
     const { organizationId } = req.user!;
 
-    const project = await Project.findOneAndDelete({
+    const project = await Project.findOne({
       _id: id,
       organizationId
     });
@@ -302,11 +465,23 @@ export const deleteProject = async (
       throw new NotFoundError('Project');
     }
 
-    log.info(`Project deleted: ${project.name}`);
+    // Kept in the trash until the retention window ends; the purge job removes it for good
+    const purgeAt = await projectLifecycleService.trash(project);
+
+    await activityService.record(req, 'project.deleted', {
+      type: 'project',
+      id: project._id,
+      name: project.name
+    }, {
+      metadata: { purgeAt }
+    });
+
+    log.info(`Project moved to trash: ${project.name}`, { purgeAt });
 
     res.json({
       success: true,
-      message: CONSTANTS.RESPONSE_MESSAGES.DELETED
+      message: 'Project moved to trash',
+      data: { purgeAt }
     });
   } catch (error) {
     next(error);
@@ -320,7 +495,11 @@ export const duplicateProject = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const { userId, organizationId } = req.user!;
+    const { userId, organizationId, apiToken } = req.user!;
+
+    if (apiToken?.projectIds.length) {
+      throw new AuthorizationError('Project-scoped API tokens cannot create projects');
+    }
 
     const originalProject = await Project.findOne({
       _id: id,
@@ -331,6 +510,8 @@ export const duplicateProject = async (
       throw new NotFoundError('Project');
     }
 
+    projectLifecycleService.assertActive(originalProject);
+
     // Generate unique name
     let copyName = `${originalProject.name} (Copy)`;
     let counter = 1;
@@ -344,11 +525,24 @@ export const duplicateProject = async (
       organizationId,
       mongoUri: originalProject.mongoUri, // Already encrypted
       encryptedApiKey: originalProject.encryptedApiKey,
+      connectionOptions: originalProject.toObject().connectionOptions, // Already encrypted
       databaseName: originalProject.databaseName,
+      databases: originalProject.databases,
       schemaCache: originalProject.schemaCache,
+      tags: originalProject.tags,
+      folder: originalProject.folder,
+      // A copy of a restricted project stays restricted to the same teams
+      visibility: originalProject.visibility,
+      teamIds: originalProject.teamIds,
       createdBy: userId
     });
 
+    await activityService.record(req, 'project.duplicated', {
+      type: 'project',
+      id: duplicatedProject._id,
+      name: copyName
+    }, { metadata: { sourceProjectId: originalProject._id, sourceProjectName: originalProject.name } });
+
     log.info(`Project duplicated: ${originalProject.name} -> ${copyName}`);
 
     res.status(201).json({
@@ -368,6 +562,151 @@ export const duplicateProject = async (
   }
 };
 
+/**
+ * Download a project as a passphrase-encrypted bundle. The passphrase is
+ * sent in a header so it stays out of URLs and access logs.
+ */
+export const exportProject = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { organizationId } = req.user!;
+    const passphrase = req.get(CONSTANTS.PROJECT_BUNDLE.PASSPHRASE_HEADER)!;
+
+    const project = await Project.findOne({ _id: id, organizationId });
+    if (!project) {
+      throw new NotFoundError('Project');
+    }
+
+    const bundle = await projectBundleService.seal({
+      name: project.name,
+      databaseName: project.databaseName,
+      databases: project.getDatabases(),
+      mongoUri: project.getDecryptedUri(),
+      apiKey: project.getDecryptedApiKey(),
+      connectionOptions: project.getConnectionOptions(),
+      schemaCache: project.toObject().schemaCache || null
+    }, passphrase);
+
+    await activityService.record(req, 'project.exported', {
+      type: 'project',
+      id: project._id,
+      name: project.name
+    });
+
+    log.info(`Project exported: ${project.name}`);
+
+    const fileName = project.name.toLowerCase().replace(/[^a-z0-9_-]+/g, '-') || 'project';
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.dataverse.json"`);
+    res.json(bundle);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a project from an exported bundle. Secrets are re-encrypted with
+ * this server's key on save and the connection is validated again, since
+ * the cluster may not be reachable from here.
+ */
+export const importProject = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { bundle, passphrase, name } = req.body;
+    const { userId, organizationId, apiToken } = req.user!;
+
+    if (apiToken?.projectIds.length) {
+      throw new AuthorizationError('Project-scoped API tokens cannot create projects');
+    }
+
+    const contents = await projectBundleService.open(bundle, passphrase);
+    const projectName: string = name || contents.name;
+
+    const existingProject = await Project.findOne({
+      organizationId,
+      state: { $ne: 'deleted' },
+      name: { $regex: new RegExp(`^${projectName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i') }
+    });
+
+    if (existingProject) {
+      throw new ConflictError('Project name already exists in this organization');
+    }
+
+    const connectionOptions = pickConnectionOptions(contents.connectionOptions);
+    const mongoService = new MongoDBService(contents.mongoUri, connectionOptions);
+    const connectionInfo = await mongoService.validateConnection();
+
+    if (!connectionInfo.isValid) {
+      throw new ValidationError(connectionInfo.error || 'Invalid MongoDB connection');
+    }
+
+    const databases = await resolveDatabases(
+      contents.mongoUri,
+      connectionOptions,
+      connectionInfo.databaseName!,
+      contents.databases
+    );
+
+    const project = await Project.create({
+      name: projectName,
+      organizationId,
+      mongoUri: contents.mongoUri,
+      encryptedApiKey: contents.apiKey,
+      connectionOptions,
+      databaseName: connectionInfo.databaseName!,
+      databases,
+      schemaCache: contents.schemaCache || undefined,
+      createdBy: userId
+    });
+
+    // Bundles exported before the schema was ever extracted carry none
+    if (!contents.schemaCache) {
+      const schemaService = new SchemaService();
+      schemaService.extractAndCacheSchema(
+        project._id.toString(),
+        contents.mongoUri,
+        true,
+        connectionOptions,
+        databases
+      ).catch(error => {
+        log.warn(`Failed to extract schema for imported project ${projectName}:`, error);
+      });
+    }
+
+    await activityService.record(req, 'project.imported', {
+      type: 'project',
+      id: project._id,
+      name: projectName
+    }, { metadata: { databaseName: project.databaseName, exportedAt: bundle.exportedAt } });
+
+    log.success(`Project imported: ${projectName} by user ${userId}`);
+
+    res.status(201).json({
+      success: true,
+      message: 'Project imported successfully',
+      data: {
+        project: {
+          id: project._id,
+          name: project.name,
+          databaseName: project.databaseName,
+          databases: project.getDatabases(),
+          connectionStatus: project.connectionStatus,
+          connectionOptions: serializeConnectionOptions(project),
+          createdAt: project.createdAt
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const validateConnection = async (
   req: AuthRequest,
   res: Response,
@@ -378,11 +717,12 @@ export const validateConnection = async (
   
   try {
     const { mongoUri } = req.body;
+    const connectionOptions = pickConnectionOptions(req.body.connectionOptions);
     log.step(1, 3, 'Received connection validation request');
     log.table({ mongoUri: mongoUri.substring(0, 50) + '...' });
 
     log.step(2, 3, 'Validating connection');
-    const mongoService = new MongoDBService(mongoUri);
+    const mongoService = new MongoDBService(mongoUri, connectionOptions);
     const connectionInfo = await mongoService.validateConnection();
 
     if (!connectionInfo.isValid) {
@@ -443,11 +783,15 @@ export const listDatabases = async (
   
   try {
     const { mongoUri } = req.body;
+    const connectionOptions = pickConnectionOptions(req.body.connectionOptions);
     log.step(1, 4, 'Received database listing request');
     log.table({ mongoUri: mongoUri.substring(0, 50) + '...' });
 
-    // Generate cache key from URI
-    const cacheKey = `databases:${Buffer.from(mongoUri).toString('base64')}`;
+    // Generate cache key from URI and options; certificates are too long to embed
+    const cacheKey = `databases:${crypto
+      .createHash('sha256')
+      .update(`${mongoUri}|${JSON.stringify(connectionOptions)}`)
+      .digest('hex')}`;
     
     log.step(2, 4, 'Checking cache for database list');
     const cachedDatabases = await cacheService.get<DatabaseInfo[]>(cacheKey);
@@ -474,7 +818,7 @@ export const listDatabases = async (
     }
 
     log.step(3, 4, 'Fetching databases from cluster');
-    const mongoService = new MongoDBService(mongoUri);
+    const mongoService = new MongoDBService(mongoUri, connectionOptions);
     const databases = await mongoService.listDatabasesInCluster();
 
     log.success(`Retrieved ${databases.length} databases from cluster`);
@@ -515,18 +859,21 @@ export const getProjectStats = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { organizationId } = req.user!;
+    const accessFilter = await projectAccessService.getAccessFilter(req.user!);
+    const filter = { ...accessFilter, ...projectStateFilter('active') };
 
-    const [total, recentlyAccessed, withSchema] = await Promise.all([
-      Project.countDocuments({ organizationId }),
+    const [total, recentlyAccessed, withSchema, archived, deleted] = await Promise.all([
+      Project.countDocuments(filter),
       Project.countDocuments({
-        organizationId,
+        ...filter,
         lastAccessed: { $gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) }
       }),
       Project.countDocuments({
-        organizationId,
+        ...filter,
         'schemaCache.collections': { $exists: true, $ne: [] }
-      })
+      }),
+      Project.countDocuments({ ...accessFilter, ...projectStateFilter('archived') }),
+      Project.countDocuments({ ...accessFilter, ...projectStateFilter('deleted') })
     ]);
 
     res.json({
@@ -536,7 +883,9 @@ export const getProjectStats = async (
           total,
           recentlyAccessed,
           withSchema,
-          withoutSchema: total - withSchema
+          withoutSchema: total - withSchema,
+          archived,
+          deleted
         }
       }
     });
@@ -544,3 +893,325 @@ export const getProjectStats = async (
     next(error);
   }
 };
+
+/**
+ * Tags and folders used by the projects the caller can see, for building
+ * filters and the folder tree
+ */
+export const getProjectFacets = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { apiToken } = req.user!;
+
+    const filter: Record<string, any> = {
+      ...await projectAccessService.getAccessFilter(req.user!),
+      ...projectStateFilter('active')
+    };
+    if (apiToken?.projectIds.length) {
+      filter._id = { $in: apiToken.projectIds };
+    }
+
+    const [tags, folders] = await Promise.all([
+      projectSearchService.listTags(filter),
+      projectSearchService.listFolders(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: { tags, folders }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Latest ping result and uptime over a range of scheduled health checks
+ */
+export const getProjectHealth = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { organizationId } = req.user!;
+    const range = (req.query.range as string) || '24h';
+
+    const project = await Project.findOne({ _id: id, organizationId })
+      .select('name health schemaCache.lastSynced');
+
+    if (!project) {
+      throw new NotFoundError('Project');
+    }
+
+    const health = await healthCheckService.getHealth(project, range);
+
+    res.json({
+      success: true,
+      data: { health }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const archiveProject = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { organizationId } = req.user!;
+
+    const project = await Project.findOne({ _id: id, organizationId });
+    if (!project) {
+      throw new NotFoundError('Project');
+    }
+
+    await projectLifecycleService.archive(project);
+
+    await activityService.record(req, 'project.archived', {
+      type: 'project',
+      id: project._id,
+      name: project.name
+    });
+
+    log.info(`Project archived: ${project.name}`);
+
+    res.json({
+      success: true,
+      message: 'Project archived',
+      data: { project: { id: project._id, name: project.name, ...serializeLifecycle(project) } }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Bring an archived project, or one still in the trash, back into use
+ */
+export const restoreProject = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { organizationId } = req.user!;
+
+    const [project, organization] = await Promise.all([
+      Project.findOne({ _id: id, organizationId }),
+      Organization.findById(organizationId)
+    ]);
+    if (!project) {
+      throw new NotFoundError('Project');
+    }
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    const previousState = project.state;
+    await projectLifecycleService.restore(project, organization);
+
+    await activityService.record(req, 'project.restored', {
+      type: 'project',
+      id: project._id,
+      name: project.name
+    }, {
+      metadata: { from: previousState }
+    });
+
+    log.info(`Project restored: ${project.name}`, { from: previousState });
+
+    res.json({
+      success: true,
+      message: 'Project restored',
+      data: { project: { id: project._id, name: project.name, ...serializeLifecycle(project) } }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getProjectAccess = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { organizationId } = req.user!;
+
+    const project = await Project.findOne({ _id: id, organizationId })
+      .select('name visibility teamIds')
+      .populate('teamIds', 'name');
+
+    if (!project) {
+      throw new NotFoundError('Project');
+    }
+
+    res.json({
+      success: true,
+      data: {
+        access: {
+          visibility: project.visibility || 'organization',
+          teams: project.teamIds
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Open a project to the whole organization or restrict it to a set of teams.
+ * Admins always keep access.
+ */
+export const updateProjectAccess = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { visibility, teamIds = [] } = req.body;
+    const { organizationId } = req.user!;
+
+    const project = await Project.findOne({ _id: id, organizationId });
+    if (!project) {
+      throw new NotFoundError('Project');
+    }
+
+    const before = {
+      visibility: project.visibility || 'organization',
+      teamIds: project.teamIds.map(teamId => teamId.toString())
+    };
+
+    const uniqueTeamIds: string[] = Array.from(new Set(teamIds));
+    const teams = await Team.countDocuments({ _id: { $in: uniqueTeamIds }, organizationId });
+    if (teams !== uniqueTeamIds.length) {
+      throw new ValidationError('Every team must belong to this organization');
+    }
+
+    project.visibility = visibility;
+    project.teamIds = visibility === 'teams' ? uniqueTeamIds : [];
+    await project.save();
+
+    await activityService.record(req, 'project.access_updated', {
+      type: 'project',
+      id: project._id,
+      name: project.name
+    }, {
+      changes: activityService.diff(before, {
+        visibility: project.visibility,
+        teamIds: project.teamIds.map(teamId => teamId.toString())
+      })
+    });
+
+    log.info(`Project access updated: ${project.name}`, { visibility, teams: project.teamIds.length });
+
+    res.json({
+      success: true,
+      message: CONSTANTS.RESPONSE_MESSAGES.UPDATED,
+      data: {
+        access: {
+          visibility: project.visibility,
+          teamIds: project.teamIds
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+const CONNECTION_OPTION_FIELDS: Array<keyof MongoConnectionOptions> = [
+  'caCertificate',
+  'clientCertificate',
+  'clientKey',
+  'clientKeyPassphrase',
+  'authMechanism',
+  'authSource',
+  'readPreference',
+  'appName'
+];
+
+/**
+ * Known connection options from a request body. Empty values are dropped
+ * unless keepCleared is set, in which case they come back as null.
+ */
+function pickConnectionOptions(input: Record<string, any> = {}, keepCleared = false): MongoConnectionOptions {
+  const options: Record<string, any> = {};
+  for (const field of CONNECTION_OPTION_FIELDS) {
+    if (input[field] === undefined) continue;
+    if (input[field]) {
+      options[field] = input[field];
+    } else if (keepCleared) {
+      options[field] = null;
+    }
+  }
+  return options;
+}
+
+/**
+ * The databases a project includes, primary first. Every other database
+ * must exist on the cluster.
+ */
+async function resolveDatabases(
+  mongoUri: string,
+  connectionOptions: MongoConnectionOptions,
+  primary: string,
+  requested: string[] = []
+): Promise<string[]> {
+  const databases = Array.from(new Set([primary, ...requested]));
+  if (databases.length === 1) {
+    return databases;
+  }
+
+  const system = databases.filter(name => name !== primary && CONSTANTS.MONGODB.SYSTEM_DATABASES.includes(name));
+  if (system.length > 0) {
+    throw new ValidationError(`System databases cannot be added to a project: ${system.join(', ')}`);
+  }
+
+  const available = new Set(
+    (await new MongoDBService(mongoUri, connectionOptions).listDatabasesInCluster()).map(database => database.name)
+  );
+  const missing = databases.filter(name => name !== primary && !available.has(name));
+  if (missing.length > 0) {
+    throw new ValidationError(`Database not found on the cluster: ${missing.join(', ')}`);
+  }
+
+  return databases;
+}
+
+function serializeLifecycle(project: IProject) {
+  return {
+    state: project.state || 'active',
+    archivedAt: project.archivedAt || null,
+    deletedAt: project.deletedAt || null,
+    purgeAt: project.purgeAt || null
+  };
+}
+
+/**
+ * Connection options as shown to clients; certificate material is never returned
+ */
+function serializeConnectionOptions(project: IProject) {
+  const options = project.connectionOptions || {};
+  return {
+    hasCaCertificate: !!options.caCertificate,
+    hasClientCertificate: !!options.clientCertificate,
+    hasClientKey: !!options.clientKey,
+    authMechanism: options.authMechanism || null,
+    authSource: options.authSource || null,
+    readPreference: options.readPreference || null,
+    appName: options.appName || null
+  };
+}
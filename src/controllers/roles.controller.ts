@@ -0,0 +1,184 @@
+import { Response, NextFunction } from 'express';
+import { Role } from '../models/Role';
+import { Organization } from '../models/Organization';
+import { AuthRequest, IRole, Permission } from '../types';
+import { MembershipService } from '../services/membership.service';
+import { ActivityService } from '../services/activity.service';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { CONSTANTS } from '../utils/constants';
+import { logger } from '../utils/logger';
+
+const membershipService = new MembershipService();
+const activityService = new ActivityService();
+
+export const getRoles = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+
+    const [roles, organization] = await Promise.all([
+      Role.find({ organizationId }).sort({ name: 1 }),
+      Organization.findById(organizationId).select('members')
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        permissions: Object.entries(CONSTANTS.PERMISSIONS).map(([name, description]) => ({ name, description })),
+        builtInRoles: Object.entries(CONSTANTS.ROLE_PERMISSIONS).map(([name, permissions]) => ({ name, permissions })),
+        roles: roles.map(role => ({
+          ...serializeRole(role),
+          memberCount: organization?.members.filter(
+            member => member.customRoleId?.toString() === role._id.toString()
+          ).length || 0
+        }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createRole = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId, userId } = req.user!;
+    const { name, description, permissions } = req.body;
+
+    membershipService.assertCanGrant(req.user!.permissions, permissions);
+
+    if (await Role.exists({ organizationId, name })) {
+      throw new ConflictError('A role with this name already exists');
+    }
+
+    const role = await Role.create({
+      organizationId,
+      name,
+      description,
+      permissions: Array.from(new Set(permissions)),
+      createdBy: userId
+    });
+
+    await activityService.record(req, 'role.created', { type: 'role', id: role._id, name }, {
+      metadata: { permissions: role.permissions }
+    });
+
+    logger.info(`Custom role created: ${name} in organization ${organizationId}`);
+
+    res.status(201).json({
+      success: true,
+      message: CONSTANTS.RESPONSE_MESSAGES.CREATED,
+      data: { role: serializeRole(role) }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateRole = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+    const { roleId } = req.params;
+    const { name, description, permissions } = req.body;
+
+    const role = await Role.findOne({ _id: roleId, organizationId });
+    if (!role) {
+      throw new NotFoundError('Role');
+    }
+
+    const before = {
+      name: role.name,
+      description: role.description ?? null,
+      permissions: [...role.permissions]
+    };
+
+    if (name && name !== role.name) {
+      if (await Role.exists({ organizationId, name, _id: { $ne: roleId } })) {
+        throw new ConflictError('A role with this name already exists');
+      }
+      role.name = name;
+    }
+    if (description !== undefined) role.description = description;
+    if (permissions) {
+      membershipService.assertCanGrant(req.user!.permissions, permissions);
+      role.permissions = Array.from(new Set(permissions as Permission[]));
+    }
+
+    await role.save();
+    await membershipService.invalidateRole(roleId);
+
+    await activityService.record(req, 'role.updated', { type: 'role', id: role._id, name: role.name }, {
+      changes: activityService.diff(before, {
+        name: role.name,
+        description: role.description ?? null,
+        permissions: [...role.permissions]
+      })
+    });
+
+    logger.info(`Custom role updated: ${role.name} in organization ${organizationId}`);
+
+    res.json({
+      success: true,
+      message: CONSTANTS.RESPONSE_MESSAGES.UPDATED,
+      data: { role: serializeRole(role) }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteRole = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+    const { roleId } = req.params;
+
+    const role = await Role.findOne({ _id: roleId, organizationId });
+    if (!role) {
+      throw new NotFoundError('Role');
+    }
+
+    const inUse = await Organization.exists({ _id: organizationId, 'members.customRoleId': roleId });
+    if (inUse) {
+      throw new ConflictError('Move members off this role before deleting it');
+    }
+
+    await role.deleteOne();
+    await membershipService.invalidateRole(roleId);
+
+    await activityService.record(req, 'role.deleted', { type: 'role', id: role._id, name: role.name });
+
+    logger.info(`Custom role deleted: ${role.name} in organization ${organizationId}`);
+
+    res.json({
+      success: true,
+      message: CONSTANTS.RESPONSE_MESSAGES.DELETED
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+function serializeRole(role: IRole) {
+  return {
+    id: role._id,
+    name: role.name,
+    description: role.description,
+    permissions: role.permissions,
+    createdAt: role.createdAt,
+    updatedAt: role.updatedAt
+  };
+}
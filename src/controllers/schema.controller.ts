@@ -5,9 +5,12 @@ import { NotFoundError, ValidationError } from '../utils/errors';
 import { SchemaService } from '../services/schema.service';
 import { MongoDBService } from '../services/mongodb.service';
 import { CacheService } from '../services/cache.service';
+import { ActivityService } from '../services/activity.service';
 import { logger } from '../utils/logger';
 import { CONSTANTS } from '../utils/constants';
 
+const activityService = new ActivityService();
+
 export const extractSchema = async (
   req: AuthRequest,
   res: Response,
@@ -28,12 +31,24 @@ export const extractSchema = async (
 
     const decryptedUri = project.getDecryptedUri();
     const schemaService = new SchemaService();
-    const schema = await schemaService.extractAndCacheSchema(id, decryptedUri, true);
+    const schema = await schemaService.extractAndCacheSchema(
+      id,
+      decryptedUri,
+      true,
+      project.getConnectionOptions(),
+      project.getDatabases()
+    );
 
     if (!schema) {
       throw new ValidationError('Failed to extract schema');
     }
 
+    await activityService.record(req, 'schema.extracted', {
+      type: 'project',
+      id: project._id,
+      name: project.name
+    }, { metadata: { collections: schema.collections.length } });
+
     logger.info(`Schema extracted for project: ${project.name}`);
 
     res.json({
@@ -41,7 +56,9 @@ export const extractSchema = async (
       message: 'Schema extracted successfully',
       data: {
         schema: {
+          databases: schema.databases,
           collections: schema.collections.map(col => ({
+            database: col.database,
             name: col.name,
             fields: col.fields,
             documentCount: col.documentCount,
@@ -90,16 +107,35 @@ export const refreshSchema = async (
 
     const decryptedUri = project.getDecryptedUri();
     const schemaService = new SchemaService();
-    const schema = await schemaService.extractAndCacheSchema(id, decryptedUri);
+    const schema = await schemaService.extractAndCacheSchema(
+      id,
+      decryptedUri,
+      true,
+      project.getConnectionOptions(),
+      project.getDatabases()
+    );
+
+    if (!schema) {
+      throw new ValidationError('Failed to refresh schema');
+    }
 
     // Update project
     project.schemaCache = {
+      databaseName: project.databaseName,
+      databases: schema.databases,
       collections: schema.collections,
       relationships: schema.relationships,
+      stats: schema.stats,
       lastSynced: new Date()
     };
     await project.save();
 
+    await activityService.record(req, 'schema.refreshed', {
+      type: 'project',
+      id: project._id,
+      name: project.name
+    }, { metadata: { collections: schema.collections.length, force } });
+
     logger.info(`Schema refreshed for project: ${project.name}`);
 
     res.json({
@@ -107,6 +143,7 @@ export const refreshSchema = async (
       message: 'Schema refreshed successfully',
       data: {
         schema: {
+          databases: schema.databases,
           collections: schema.collections,
           relationships: schema.relationships,
           stats: schema.stats,
@@ -138,12 +175,17 @@ export const getCollectionSample = async (
       throw new NotFoundError('Project');
     }
 
+    const database = (req.query.database as string) || project.databaseName;
+    if (!project.getDatabases().includes(database)) {
+      throw new ValidationError(`Database '${database}' is not part of this project`);
+    }
+
     const decryptedUri = project.getDecryptedUri();
-    const mongoService = new MongoDBService(decryptedUri);
+    const mongoService = new MongoDBService(decryptedUri, project.getConnectionOptions());
     
     await mongoService.connect();
     const samples = await mongoService.getCollectionSample(
-      project.databaseName,
+      database,
       name,
       Number(limit)
     );
@@ -152,6 +194,7 @@ export const getCollectionSample = async (
     res.json({
       success: true,
       data: {
+        database,
         collection: name,
         samples,
         count: samples.length
@@ -180,12 +223,17 @@ export const getFieldDistribution = async (
       throw new NotFoundError('Project');
     }
 
+    const database = (req.query.database as string) || project.databaseName;
+    if (!project.getDatabases().includes(database)) {
+      throw new ValidationError(`Database '${database}' is not part of this project`);
+    }
+
     const decryptedUri = project.getDecryptedUri();
-    const mongoService = new MongoDBService(decryptedUri);
+    const mongoService = new MongoDBService(decryptedUri, project.getConnectionOptions());
     
     await mongoService.connect();
     const distribution = await mongoService.getFieldValueDistribution(
-      project.databaseName,
+      database,
       name,
       field
     );
@@ -194,6 +242,7 @@ export const getFieldDistribution = async (
     res.json({
       success: true,
       data: {
+        database,
         collection: name,
         field,
         distribution,
@@ -0,0 +1,251 @@
+import { Response, NextFunction } from 'express';
+import { Team } from '../models/Team';
+import { Organization } from '../models/Organization';
+import { Project } from '../models/Project';
+import { AuthRequest, ITeam } from '../types';
+import { ActivityService } from '../services/activity.service';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { CONSTANTS } from '../utils/constants';
+import { logger } from '../utils/logger';
+
+const activityService = new ActivityService();
+
+export const getTeams = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+
+    const teams = await Team.find({ organizationId })
+      .populate('members', 'name email')
+      .sort({ name: 1 });
+
+    const projects = await Project.find({
+      organizationId,
+      teamIds: { $in: teams.map(team => team._id) }
+    }).select('name teamIds');
+
+    res.json({
+      success: true,
+      data: {
+        teams: teams.map(team => ({
+          ...serializeTeam(team),
+          projects: projects
+            .filter(project => project.teamIds.some(id => id.toString() === team._id.toString()))
+            .map(project => ({ id: project._id, name: project.name }))
+        })),
+        total: teams.length
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createTeam = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId, userId } = req.user!;
+    const { name, description } = req.body;
+
+    if (await Team.exists({ organizationId, name })) {
+      throw new ConflictError('A team with this name already exists');
+    }
+
+    const team = await Team.create({
+      organizationId,
+      name,
+      description,
+      members: [],
+      createdBy: userId
+    });
+
+    await activityService.record(req, 'team.created', { type: 'team', id: team._id, name });
+
+    logger.info(`Team created: ${name} in organization ${organizationId}`);
+
+    res.status(201).json({
+      success: true,
+      message: CONSTANTS.RESPONSE_MESSAGES.CREATED,
+      data: { team: serializeTeam(team) }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateTeam = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+    const { teamId } = req.params;
+    const { name, description } = req.body;
+
+    const team = await Team.findOne({ _id: teamId, organizationId });
+    if (!team) {
+      throw new NotFoundError('Team');
+    }
+
+    const before = { name: team.name, description: team.description ?? null };
+
+    if (name && name !== team.name) {
+      if (await Team.exists({ organizationId, name, _id: { $ne: teamId } })) {
+        throw new ConflictError('A team with this name already exists');
+      }
+      team.name = name;
+    }
+    if (description !== undefined) team.description = description;
+
+    await team.save();
+
+    await activityService.record(req, 'team.updated', { type: 'team', id: team._id, name: team.name }, {
+      changes: activityService.diff(before, { name: team.name, description: team.description ?? null })
+    });
+
+    res.json({
+      success: true,
+      message: CONSTANTS.RESPONSE_MESSAGES.UPDATED,
+      data: { team: serializeTeam(team) }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Projects restricted to the deleted team stay restricted, so they fall
+ * back to admins only rather than opening up to everyone
+ */
+export const deleteTeam = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+    const { teamId } = req.params;
+
+    const team = await Team.findOneAndDelete({ _id: teamId, organizationId });
+    if (!team) {
+      throw new NotFoundError('Team');
+    }
+
+    await Project.updateMany(
+      { organizationId, teamIds: team._id },
+      { $pull: { teamIds: team._id } }
+    );
+
+    await activityService.record(req, 'team.deleted', { type: 'team', id: team._id, name: team.name });
+
+    logger.info(`Team deleted: ${team.name} in organization ${organizationId}`);
+
+    res.json({
+      success: true,
+      message: CONSTANTS.RESPONSE_MESSAGES.DELETED
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addTeamMember = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+    const { teamId } = req.params;
+    const { userId } = req.body;
+
+    const [team, organization] = await Promise.all([
+      Team.findOne({ _id: teamId, organizationId }),
+      Organization.findById(organizationId)
+    ]);
+    if (!team) {
+      throw new NotFoundError('Team');
+    }
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    if (!organization.members.some(m => m.userId.toString() === userId)) {
+      throw new ValidationError('Only members of the organization can join its teams');
+    }
+    if (team.members.some(id => id.toString() === userId)) {
+      throw new ConflictError('User is already in this team');
+    }
+
+    team.members.push(userId);
+    await team.save();
+
+    await activityService.record(req, 'team.member_added', { type: 'team', id: team._id, name: team.name }, {
+      metadata: { userId }
+    });
+
+    logger.info(`User ${userId} added to team ${team.name}`);
+
+    res.json({
+      success: true,
+      message: 'Member added to team',
+      data: { team: serializeTeam(team) }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeTeamMember = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { organizationId } = req.user!;
+    const { teamId, userId } = req.params;
+
+    const team = await Team.findOne({ _id: teamId, organizationId });
+    if (!team) {
+      throw new NotFoundError('Team');
+    }
+
+    if (!team.members.some(id => id.toString() === userId)) {
+      throw new NotFoundError('Team member');
+    }
+
+    team.members = team.members.filter(id => id.toString() !== userId);
+    await team.save();
+
+    await activityService.record(req, 'team.member_removed', { type: 'team', id: team._id, name: team.name }, {
+      metadata: { userId }
+    });
+
+    logger.info(`User ${userId} removed from team ${team.name}`);
+
+    res.json({
+      success: true,
+      message: 'Member removed from team'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+function serializeTeam(team: ITeam) {
+  return {
+    id: team._id,
+    name: team.name,
+    description: team.description,
+    members: team.members,
+    createdAt: team.createdAt,
+    updatedAt: team.updatedAt
+  };
+}
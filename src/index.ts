@@ -12,12 +12,19 @@ import { corsMiddleware } from './middleware/cors.middleware';
 import { errorMiddleware } from './middleware/error.middleware';
 import { rateLimitMiddleware } from './middleware/rateLimit.middleware';
 import { logger } from './utils/logger';
+import { CONSTANTS } from './utils/constants';
 
 import authRoutes from './routes/auth.routes';
 import projectRoutes from './routes/projects.routes';
 import schemaRoutes from './routes/schema.routes';
 import chatRoutes from './routes/chat.routes';
 import organizationRoutes from './routes/organizations.routes';
+import invitationRoutes from './routes/invitations.routes';
+
+import { OrganizationService } from './services/organization.service';
+import { HealthCheckService } from './services/health-check.service';
+import { ProjectLifecycleService } from './services/project-lifecycle.service';
+import { createMailTransport } from './services/mail.service';
 
 dotenv.config();
 
@@ -52,6 +59,7 @@ app.use('/api/projects', projectRoutes);
 app.use('/api/schema', schemaRoutes);
 app.use('/api/chat', chatRoutes);
 app.use('/api/organizations', organizationRoutes);
+app.use('/api/invitations', invitationRoutes);
 
 // Error handling middleware (must be last)
 app.use(errorMiddleware);
@@ -67,9 +75,78 @@ const connectDatabase = async (): Promise<void> => {
   }
 };
 
+// Purge organizations whose deletion grace period has ended
+const scheduleOrganizationPurge = (): void => {
+  const organizationService = new OrganizationService();
+  
+  const sweep = async (): Promise<void> => {
+    try {
+      const purged = await organizationService.purgeDueOrganizations();
+      if (purged > 0) {
+        logger.info(`Purged ${purged} deleted organization(s)`);
+      }
+    } catch (error) {
+      logger.error('Organization purge failed:', error);
+    }
+  };
+  
+  sweep();
+  setInterval(sweep, CONSTANTS.ORGANIZATION_DELETION.SWEEP_INTERVAL).unref();
+};
+
+// Purge projects whose time in the trash has ended
+const scheduleProjectPurge = (): void => {
+  const projectLifecycleService = new ProjectLifecycleService();
+  
+  const sweep = async (): Promise<void> => {
+    try {
+      const purged = await projectLifecycleService.purgeDueProjects();
+      if (purged > 0) {
+        logger.info(`Purged ${purged} deleted project(s)`);
+      }
+    } catch (error) {
+      logger.error('Project purge failed:', error);
+    }
+  };
+  
+  sweep();
+  setInterval(sweep, CONSTANTS.PROJECT_DELETION.SWEEP_INTERVAL).unref();
+};
+
+// Ping every project's cluster so connection status reflects reality
+const scheduleHealthChecks = (): void => {
+  const healthCheckService = new HealthCheckService();
+  let running = false;
+  
+  const sweep = async (): Promise<void> => {
+    // A slow sweep must not overlap the next one
+    if (running) return;
+    running = true;
+    try {
+      const { checked, down } = await healthCheckService.checkAll();
+      if (down > 0) {
+        logger.warn(`${down} of ${checked} project connection(s) are down`);
+      }
+    } catch (error) {
+      logger.error('Project health check failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+  
+  sweep();
+  setInterval(sweep, CONSTANTS.HEALTH_CHECK.INTERVAL).unref();
+};
+
 // Start server
 const startServer = async (): Promise<void> => {
+  // Refuse to start without a way to deliver mail
+  createMailTransport();
+
   await connectDatabase();
+  scheduleOrganizationPurge();
+  scheduleProjectPurge();
+  scheduleHealthChecks();
   
   app.listen(PORT, () => {
     logger.info(`Server running on port ${PORT} in ${process.env.NODE_ENV} mode`);
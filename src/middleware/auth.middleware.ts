@@ -1,10 +1,23 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { AuthRequest, TokenPayload } from '../types';
-import { AuthenticationError, AuthorizationError } from '../utils/errors';
+import { AuthRequest, Permission, TokenPayload } from '../types';
+import { AuthenticationError, AuthorizationError, NotFoundError, ValidationError } from '../utils/errors';
 import { User } from '../models/User';
 import { Organization } from '../models/Organization';
+import { Project } from '../models/Project';
 import { logger } from '../utils/logger';
+import { TokenService } from '../services/token.service';
+import { ApiTokenService } from '../services/api-token.service';
+import { MembershipService } from '../services/membership.service';
+import { ProjectAccessService } from '../services/project-access.service';
+import { ProjectLifecycleService } from '../services/project-lifecycle.service';
+import { CONSTANTS, REGEX_PATTERNS } from '../utils/constants';
+
+const tokenService = new TokenService();
+const apiTokenService = new ApiTokenService();
+const membershipService = new MembershipService();
+const projectAccessService = new ProjectAccessService();
+const projectLifecycleService = new ProjectLifecycleService();
 
 export const authenticateUser = async (
   req: AuthRequest,
@@ -18,6 +31,13 @@ export const authenticateUser = async (
       throw new AuthenticationError('No authentication token provided');
     }
     
+    // Personal access tokens and service account tokens
+    if (apiTokenService.isApiToken(token)) {
+      req.user = await apiTokenService.authenticate(token, req.ip);
+      applyOrganizationHeader(req);
+      return next();
+    }
+    
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as TokenPayload;
     
     // Verify user still exists
@@ -26,11 +46,18 @@ export const authenticateUser = async (
       throw new AuthenticationError('User no longer exists');
     }
     
+    // Reject access tokens whose session was signed out or revoked
+    if (!decoded.sessionId || !(await tokenService.isSessionActive(decoded.sessionId))) {
+      throw new AuthenticationError('Session has been revoked');
+    }
+    
     req.user = {
       userId: decoded.userId,
       email: decoded.email,
-      organizationId: decoded.organizationId
+      organizationId: decoded.organizationId,
+      sessionId: decoded.sessionId
     };
+    applyOrganizationHeader(req);
     
     next();
   } catch (error) {
@@ -59,9 +86,31 @@ export const requireOrganization = async (
       throw new AuthorizationError('Organization not found');
     }
     
-    if (!organization.isMember(req.user.userId)) {
+    if (organization.deletion?.scheduledFor) {
+      throw new AuthorizationError(
+        `Organization is scheduled for deletion on ${organization.deletion.scheduledFor.toISOString()}. The owner can restore it until then.`
+      );
+    }
+    
+    // Service accounts belong to the organization rather than being members of it
+    if (req.user.apiToken?.type === 'service') {
+      req.user.permissions = membershipService.getRolePermissions(req.user.apiToken.role);
+      return next();
+    }
+    
+    const role = await membershipService.getRole(req.user.organizationId, req.user.userId);
+    if (!role) {
       throw new AuthorizationError('Not a member of this organization');
     }
+    req.user.role = role;
+    req.user.permissions = await getEffectivePermissions(req);
+    
+    if (organization.settings?.requireTwoFactor) {
+      const user = await User.findById(req.user.userId).select('twoFactor.enabled');
+      if (!user?.twoFactor?.enabled) {
+        throw new AuthorizationError('This organization requires two-factor authentication');
+      }
+    }
     
     next();
   } catch (error) {
@@ -69,20 +118,47 @@ export const requireOrganization = async (
   }
 };
 
-export const requireRole = (requiredRole: 'admin' | 'editor' | 'viewer') => {
+export const requireVerifiedEmail = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user?.organizationId) {
+      throw new AuthorizationError('Organization membership required');
+    }
+    
+    const organization = await Organization.findById(req.user.organizationId).select('settings');
+    if (!organization?.settings?.requireVerifiedEmail || req.user.apiToken?.type === 'service') {
+      return next();
+    }
+    
+    const user = await User.findById(req.user.userId).select('emailVerified');
+    if (!user?.emailVerified) {
+      throw new AuthorizationError('Verify your email address to access projects in this organization');
+    }
+    
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const requirePermission = (permission: Permission) => {
   return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
     try {
       if (!req.user?.organizationId) {
         throw new AuthorizationError('Organization membership required');
       }
       
-      const organization = await Organization.findById(req.user.organizationId);
-      if (!organization) {
-        throw new AuthorizationError('Organization not found');
+      if (!req.user.permissions) {
+        req.user.permissions = req.user.apiToken?.type === 'service'
+          ? membershipService.getRolePermissions(req.user.apiToken.role)
+          : await getEffectivePermissions(req);
       }
       
-      if (!organization.hasPermission(req.user.userId, requiredRole)) {
-        throw new AuthorizationError(`${requiredRole} role required`);
+      if (!req.user.permissions.includes(permission)) {
+        throw new AuthorizationError(`Missing permission: ${permission}`);
       }
       
       next();
@@ -92,6 +168,130 @@ export const requireRole = (requiredRole: 'admin' | 'editor' | 'viewer') => {
   };
 };
 
+/**
+ * Reject API tokens on endpoints that manage the account itself
+ * (sessions, two-factor settings, tokens)
+ */
+export const requireSession = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.user?.apiToken) {
+    return next(new AuthorizationError('This endpoint requires an interactive login'));
+  }
+  next();
+};
+
+/**
+ * Keep project-scoped API tokens inside their projects. A router.param('id' |
+ * 'projectId') handler; routes that take projectId in the body use
+ * enforceBodyProjectScope.
+ */
+export const enforceTokenProjectScope = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+  projectId: string
+): void => {
+  const projectIds = req.user?.apiToken?.projectIds;
+  if (!projectIds?.length) {
+    return next();
+  }
+  
+  if (projectId && !projectIds.includes(String(projectId))) {
+    return next(new AuthorizationError('API token is not allowed to access this project'));
+  }
+  
+  next();
+};
+
+/**
+ * enforceTokenProjectScope for projectId in the request body. Express treats
+ * four-argument functions passed to router.use as error handlers, so the
+ * body variant must take three.
+ */
+export const enforceBodyProjectScope = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  enforceTokenProjectScope(req, res, next, req.body?.projectId);
+};
+
+/**
+ * Hide projects the caller's teams have not been granted. Used the same way
+ * as enforceTokenProjectScope, after requireOrganization.
+ */
+export const requireProjectAccess = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+  projectId: string
+): Promise<void> => {
+  try {
+    if (!projectId || !req.user?.organizationId) {
+      return next();
+    }
+    
+    if (!REGEX_PATTERNS.OBJECT_ID.test(String(projectId))) {
+      throw new ValidationError('Invalid project ID');
+    }
+    
+    if (!(await projectAccessService.canAccess(req.user, String(projectId)))) {
+      throw new NotFoundError('Project');
+    }
+    
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * requireProjectAccess for projectId in the request body
+ */
+export const requireBodyProjectAccess = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => requireProjectAccess(req, res, next, req.body?.projectId);
+
+/**
+ * Reject work against archived or deleted projects. Runs after
+ * requireProjectAccess, which has already validated the ID.
+ */
+export const requireActiveProject = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+  projectId: string
+): Promise<void> => {
+  try {
+    if (!projectId || !req.user?.organizationId) {
+      return next();
+    }
+    
+    const project = await Project.findById(String(projectId)).select('state');
+    if (project) {
+      projectLifecycleService.assertActive(project);
+    }
+    
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * requireActiveProject for projectId in the request body
+ */
+export const requireBodyActiveProject = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => requireActiveProject(req, res, next, req.body?.projectId);
+
 export const optionalAuth = async (
   req: AuthRequest,
   res: Response,
@@ -105,8 +305,10 @@ export const optionalAuth = async (
       req.user = {
         userId: decoded.userId,
         email: decoded.email,
-        organizationId: decoded.organizationId
+        organizationId: decoded.organizationId,
+        sessionId: decoded.sessionId
       };
+      applyOrganizationHeader(req);
     }
     
     next();
@@ -117,6 +319,43 @@ export const optionalAuth = async (
   }
 };
 
+/**
+ * The member's permissions, narrowed to the issuing role when the request
+ * uses a personal API token
+ */
+async function getEffectivePermissions(req: AuthRequest): Promise<Permission[]> {
+  const { organizationId, userId, apiToken } = req.user!;
+  const permissions = await membershipService.getPermissions(organizationId!, userId);
+  
+  if (!apiToken) {
+    return permissions;
+  }
+  
+  const allowed = membershipService.getRolePermissions(apiToken.role);
+  return permissions.filter(permission => allowed.includes(permission));
+}
+
+/**
+ * Let the client pick the active organization per request with
+ * X-Organization-Id instead of the one baked into the token. Membership is
+ * checked later by requireOrganization/requirePermission.
+ */
+function applyOrganizationHeader(req: AuthRequest): void {
+  const header = req.get(CONSTANTS.ORGANIZATION_HEADER);
+  if (!header || !req.user) return;
+  
+  if (!REGEX_PATTERNS.OBJECT_ID.test(header)) {
+    throw new ValidationError(`Invalid ${CONSTANTS.ORGANIZATION_HEADER} header`);
+  }
+  
+  // API tokens are bound to the organization they were issued in
+  if (req.user.apiToken && header !== req.user.organizationId) {
+    throw new AuthorizationError('API token is not valid for this organization');
+  }
+  
+  req.user.organizationId = header;
+}
+
 function extractToken(req: AuthRequest): string | null {
   const authHeader = req.headers.authorization;
   
@@ -29,7 +29,8 @@ export const corsMiddleware = cors({
     'Authorization',
     'X-Requested-With',
     'Accept',
-    'Origin'
+    'Origin',
+    'X-Organization-Id'
   ],
   exposedHeaders: [
     'X-Total-Count',
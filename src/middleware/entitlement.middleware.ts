@@ -0,0 +1,69 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest, FeatureName, QuotaName } from '../types';
+import { Organization } from '../models/Organization';
+import { EntitlementService } from '../services/entitlement.service';
+import { BudgetService } from '../services/budget.service';
+import { AuthorizationError } from '../utils/errors';
+
+const entitlementService = new EntitlementService();
+const budgetService = new BudgetService();
+
+/**
+ * Reject the request when the active organization has used up a plan quota.
+ * Runs after requireOrganization.
+ */
+export const requireQuota = (quota: QuotaName) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const organization = await Organization.findById(req.user?.organizationId);
+      if (!organization) {
+        throw new AuthorizationError('Organization membership required');
+      }
+
+      await entitlementService.assertQuota(organization, quota);
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Reject AI requests once the organization or the caller has spent a
+ * monthly AI budget. Runs before any call to the model.
+ */
+export const requireAiBudget = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const organization = await Organization.findById(req.user?.organizationId).select('settings');
+    if (!organization) {
+      throw new AuthorizationError('Organization membership required');
+    }
+
+    await budgetService.assertWithinBudget(organization, req.user!.userId);
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Reject the request when the active organization's plan lacks a feature
+ */
+export const requireFeature = (feature: FeatureName) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const organization = await Organization.findById(req.user?.organizationId).select('settings');
+      if (!organization) {
+        throw new AuthorizationError('Organization membership required');
+      }
+
+      entitlementService.assertFeature(organization, feature);
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { AppError } from '../utils/errors';
+import { AppError, QuotaExceededError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { CONSTANTS } from '../utils/constants';
 
@@ -50,6 +50,8 @@ export const errorMiddleware = (
   res.status(statusCode).json({
     success: false,
     error: message,
+    // Clients need the limit and usage to explain a quota error
+    ...(err instanceof QuotaExceededError && { quota: err.details }),
     ...(process.env.NODE_ENV === 'development' && { 
       details,
       stack: err.stack 
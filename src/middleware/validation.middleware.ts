@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { body, param, query, validationResult } from 'express-validator';
+import { body, header, param, query, validationResult } from 'express-validator';
 import { ValidationError } from '../utils/errors';
 import { REGEX_PATTERNS, CONSTANTS } from '../utils/constants';
 
@@ -51,6 +51,573 @@ export const validateLogin = [
   handleValidationErrors
 ];
 
+export const validateForgotPassword = [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email'),
+  handleValidationErrors
+];
+
+export const validateResetPassword = [
+  body('token')
+    .isString()
+    .notEmpty()
+    .withMessage('Reset token is required'),
+  body('newPassword')
+    .isLength({ min: CONSTANTS.VALIDATION.PASSWORD_MIN_LENGTH })
+    .withMessage(`Password must be at least ${CONSTANTS.VALIDATION.PASSWORD_MIN_LENGTH} characters`),
+  handleValidationErrors
+];
+
+export const validateVerifyEmail = [
+  body('token')
+    .isString()
+    .notEmpty()
+    .withMessage('Verification token is required'),
+  handleValidationErrors
+];
+
+export const validateCreateApiToken = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Token name is required')
+    .isLength({ max: 100 })
+    .withMessage('Token name cannot exceed 100 characters'),
+  body('role')
+    .optional()
+    .isIn(['admin', 'editor', 'viewer'])
+    .withMessage('Invalid role'),
+  body('projectIds')
+    .optional()
+    .isArray()
+    .withMessage('projectIds must be an array'),
+  body('projectIds.*')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid project ID'),
+  body('expiresInDays')
+    .optional()
+    .isInt({ min: 1, max: CONSTANTS.API_TOKENS.MAX_EXPIRY_DAYS })
+    .withMessage(`expiresInDays must be between 1 and ${CONSTANTS.API_TOKENS.MAX_EXPIRY_DAYS}`)
+    .toInt(),
+  handleValidationErrors
+];
+
+export const validateCreateServiceAccount = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Service account name is required')
+    .isLength({ max: 100 })
+    .withMessage('Service account name cannot exceed 100 characters'),
+  body('description')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  body('role')
+    .isIn(['admin', 'editor', 'viewer'])
+    .withMessage('Invalid role'),
+  handleValidationErrors
+];
+
+export const validateServiceAccountTokenParams = [
+  param('id')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid service account ID'),
+  param('tokenId')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid token ID'),
+  handleValidationErrors
+];
+
+export const validateStartSso = [
+  body('organizationId')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid organization ID'),
+  handleValidationErrors
+];
+
+export const validateSsoCallback = [
+  body('code')
+    .isString()
+    .notEmpty()
+    .withMessage('Authorization code is required'),
+  body('state')
+    .isString()
+    .notEmpty()
+    .withMessage('State is required'),
+  handleValidationErrors
+];
+
+export const validateSsoSettings = [
+  body('enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('enabled must be a boolean'),
+  body('enforced')
+    .optional()
+    .isBoolean()
+    .withMessage('enforced must be a boolean'),
+  body('issuer')
+    .optional()
+    .isURL({ require_tld: false, protocols: ['http', 'https'] })
+    .withMessage('issuer must be a URL'),
+  body('clientId')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('clientId cannot be empty'),
+  body('clientSecret')
+    .optional()
+    .isString()
+    .withMessage('clientSecret must be a string'),
+  body('scopes')
+    .optional()
+    .isString()
+    .matches(/(^|\s)openid(\s|$)/)
+    .withMessage('scopes must include openid'),
+  body('groupsClaim')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('groupsClaim cannot be empty'),
+  body('roleMappings')
+    .optional()
+    .isArray()
+    .withMessage('roleMappings must be an array'),
+  body('roleMappings.*.group')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Each role mapping needs a group'),
+  body('roleMappings.*.role')
+    .isIn(['admin', 'editor', 'viewer'])
+    .withMessage('Invalid role in role mapping'),
+  body('defaultRole')
+    .optional({ values: 'null' })
+    .isIn(['admin', 'editor', 'viewer'])
+    .withMessage('Invalid default role'),
+  handleValidationErrors
+];
+
+export const validateDeleteAccount = [
+  body('password')
+    .optional()
+    .isString()
+    .withMessage('Password must be a string'),
+  body('transfers')
+    .optional()
+    .isObject()
+    .withMessage('transfers must map organization IDs to new owner IDs'),
+  body('transfers.*')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid new owner ID'),
+  body('deleteOrganizations')
+    .optional()
+    .isArray()
+    .withMessage('deleteOrganizations must be an array'),
+  body('deleteOrganizations.*')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid organization ID'),
+  handleValidationErrors
+];
+
+export const validateInvitationToken = [
+  body('token')
+    .isString()
+    .notEmpty()
+    .withMessage('Invitation token is required'),
+  handleValidationErrors
+];
+
+export const validateTransferOwnership = [
+  body('userId')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid user ID'),
+  handleValidationErrors
+];
+
+export const validateDeleteOrganization = [
+  body('confirmName')
+    .isString()
+    .notEmpty()
+    .withMessage('confirmName is required'),
+  handleValidationErrors
+];
+
+export const validateDomain = [
+  body('domain')
+    .trim()
+    .isFQDN({ require_tld: true })
+    .withMessage('Please provide a valid domain, e.g. example.com'),
+  handleValidationErrors
+];
+
+export const validateDomainParam = [
+  param('domain')
+    .isFQDN({ require_tld: true })
+    .withMessage('Invalid domain'),
+  handleValidationErrors
+];
+
+export const validateAutoJoin = [
+  body('enabled')
+    .isBoolean()
+    .withMessage('enabled must be a boolean'),
+  body('defaultRole')
+    .optional()
+    .isIn(['editor', 'viewer'])
+    .withMessage('Auto-joined members can only be editors or viewers'),
+  handleValidationErrors
+];
+
+export const validateProjectAccess = [
+  param('id')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid ID format'),
+  body('visibility')
+    .isIn(['organization', 'teams'])
+    .withMessage('Visibility must be organization or teams'),
+  body('teamIds')
+    .optional()
+    .isArray()
+    .withMessage('teamIds must be an array'),
+  body('teamIds.*')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid team ID'),
+  handleValidationErrors
+];
+
+export const validateCreateTeam = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Team name is required')
+    .isLength({ max: 100 })
+    .withMessage('Team name cannot exceed 100 characters'),
+  body('description')
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  handleValidationErrors
+];
+
+export const validateUpdateTeam = [
+  param('teamId')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid team ID'),
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Team name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Team name cannot exceed 100 characters'),
+  body('description')
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  handleValidationErrors
+];
+
+export const validateTeamId = [
+  param('teamId')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid team ID'),
+  handleValidationErrors
+];
+
+export const validateAddTeamMember = [
+  param('teamId')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid team ID'),
+  body('userId')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid user ID'),
+  handleValidationErrors
+];
+
+export const validateTeamMemberParams = [
+  param('teamId')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid team ID'),
+  param('userId')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid user ID'),
+  handleValidationErrors
+];
+
+export const validateUpdateMemberRole = [
+  param('userId')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid user ID'),
+  body('role')
+    .optional()
+    .isIn(['admin', 'editor', 'viewer'])
+    .withMessage('Invalid role'),
+  body('customRoleId')
+    .optional({ nullable: true })
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid role ID'),
+  body()
+    .custom(value => value.role !== undefined || value.customRoleId !== undefined)
+    .withMessage('Provide a role or a customRoleId'),
+  handleValidationErrors
+];
+
+export const validateCreateRole = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Role name is required')
+    .isLength({ max: 50 })
+    .withMessage('Role name cannot exceed 50 characters')
+    .not()
+    .isIn(['admin', 'editor', 'viewer'])
+    .withMessage('Role name is reserved'),
+  body('description')
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  body('permissions')
+    .isArray({ min: 1 })
+    .withMessage('Select at least one permission'),
+  body('permissions.*')
+    .isIn(Object.keys(CONSTANTS.PERMISSIONS))
+    .withMessage('Unknown permission'),
+  handleValidationErrors
+];
+
+export const validateUpdateRole = [
+  param('roleId')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid role ID'),
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Role name cannot be empty')
+    .isLength({ max: 50 })
+    .withMessage('Role name cannot exceed 50 characters')
+    .not()
+    .isIn(['admin', 'editor', 'viewer'])
+    .withMessage('Role name is reserved'),
+  body('description')
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  body('permissions')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Select at least one permission'),
+  body('permissions.*')
+    .isIn(Object.keys(CONSTANTS.PERMISSIONS))
+    .withMessage('Unknown permission'),
+  handleValidationErrors
+];
+
+export const validateRoleId = [
+  param('roleId')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid role ID'),
+  handleValidationErrors
+];
+
+export const validateActivityQuery = [
+  query('actor')
+    .optional()
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid actor ID'),
+  query('action')
+    .optional()
+    .matches(/^[a-z_]+(\.[a-z_]+|\.\*)?$/)
+    .withMessage('Invalid action'),
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('from must be an ISO 8601 date'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('to must be an ISO 8601 date'),
+  query('cursor')
+    .optional()
+    .isBase64({ urlSafe: true })
+    .withMessage('Invalid cursor'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: CONSTANTS.ACTIVITY.MAX_LIMIT })
+    .withMessage(`Limit must be between 1 and ${CONSTANTS.ACTIVITY.MAX_LIMIT}`),
+  handleValidationErrors
+];
+
+export const validateAiUsageQuery = [
+  query('groupBy')
+    .optional()
+    .isIn(['member', 'project', 'model', 'day'])
+    .withMessage('groupBy must be one of member, project, model, day'),
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('from must be an ISO 8601 date'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('to must be an ISO 8601 date'),
+  handleValidationErrors
+];
+
+export const validateAiBudget = [
+  body(['monthlyTokens', 'memberMonthlyTokens'])
+    .optional({ nullable: true })
+    .isInt({ min: 1 })
+    .withMessage('Token budgets must be positive whole numbers or null'),
+  body(['monthlyCost', 'memberMonthlyCost'])
+    .optional({ nullable: true })
+    .isFloat({ min: 0.01 })
+    .withMessage('Cost budgets must be positive amounts in USD or null'),
+  body('warningThresholds')
+    .optional()
+    .isArray({ max: CONSTANTS.AI_BUDGET.MAX_WARNING_THRESHOLDS })
+    .withMessage(`At most ${CONSTANTS.AI_BUDGET.MAX_WARNING_THRESHOLDS} warning thresholds are allowed`),
+  body('warningThresholds.*')
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Warning thresholds must be percentages between 1 and 100')
+    .toInt(),
+  handleValidationErrors
+];
+
+export const validateTwoFactorCode = [
+  body('code')
+    .isString()
+    .matches(/^\d{6}$/)
+    .withMessage('Code must be 6 digits'),
+  handleValidationErrors
+];
+
+export const validateTwoFactorLogin = [
+  body('challengeToken')
+    .notEmpty()
+    .withMessage('Challenge token is required'),
+  body('code')
+    .optional()
+    .isString()
+    .matches(/^\d{6}$/)
+    .withMessage('Code must be 6 digits'),
+  body('recoveryCode')
+    .if(body('code').not().exists())
+    .isString()
+    .notEmpty()
+    .withMessage('Either a code or a recovery code is required'),
+  handleValidationErrors
+];
+
+export const validateDisableTwoFactor = [
+  body('password')
+    .notEmpty()
+    .withMessage('Password is required'),
+  body('code')
+    .isString()
+    .matches(/^\d{6}$/)
+    .withMessage('Code must be 6 digits'),
+  handleValidationErrors
+];
+
+const isFolderPath = (value: any): boolean => {
+  if (typeof value !== 'string') {
+    throw new Error('Folder must be a string');
+  }
+  const segments = value.split('/').map(segment => segment.trim()).filter(Boolean);
+  if (segments.length > CONSTANTS.VALIDATION.PROJECT_FOLDER_MAX_DEPTH) {
+    throw new Error(`Folders can be nested at most ${CONSTANTS.VALIDATION.PROJECT_FOLDER_MAX_DEPTH} levels deep`);
+  }
+  if (segments.some(segment => segment.length > CONSTANTS.VALIDATION.PROJECT_FOLDER_SEGMENT_MAX_LENGTH)) {
+    throw new Error(`Folder names cannot exceed ${CONSTANTS.VALIDATION.PROJECT_FOLDER_SEGMENT_MAX_LENGTH} characters`);
+  }
+  return true;
+};
+
+// Tags and folder, set on create and update
+const projectLabelRules = [
+  body('tags')
+    .optional()
+    .isArray({ max: CONSTANTS.VALIDATION.PROJECT_MAX_TAGS })
+    .withMessage(`A project can have at most ${CONSTANTS.VALIDATION.PROJECT_MAX_TAGS} tags`),
+  body('tags.*')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Tags cannot be empty')
+    .isLength({ max: CONSTANTS.VALIDATION.PROJECT_TAG_MAX_LENGTH })
+    .withMessage(`Tags cannot exceed ${CONSTANTS.VALIDATION.PROJECT_TAG_MAX_LENGTH} characters`)
+    .not()
+    .contains(',')
+    .withMessage('Tags cannot contain commas'),
+  body('folder')
+    .optional({ nullable: true })
+    .custom(isFolderPath)
+];
+
+// Extra databases on the project's cluster; whether they exist is checked against the cluster
+const projectDatabasesRules = [
+  body('databases')
+    .optional()
+    .isArray({ max: CONSTANTS.MONGODB.MAX_PROJECT_DATABASES })
+    .withMessage(`A project can include at most ${CONSTANTS.MONGODB.MAX_PROJECT_DATABASES} databases`),
+  body('databases.*')
+    .isString()
+    .matches(/^[^\/\\. "$*<>:|?]{1,63}$/)
+    .withMessage('Invalid database name')
+];
+
+// Structured MongoClient options shared by project and connection checks
+const connectionOptionsRules = [
+  body('connectionOptions')
+    .optional()
+    .isObject()
+    .withMessage('Connection options must be an object'),
+  body(['connectionOptions.caCertificate', 'connectionOptions.clientCertificate'])
+    .optional({ nullable: true, checkFalsy: true })
+    .isString()
+    .matches(REGEX_PATTERNS.PEM_CERTIFICATE)
+    .withMessage('Certificates must be PEM encoded'),
+  body('connectionOptions.clientKey')
+    .optional({ nullable: true, checkFalsy: true })
+    .isString()
+    .matches(REGEX_PATTERNS.PEM_PRIVATE_KEY)
+    .withMessage('Client key must be a PEM encoded private key'),
+  body('connectionOptions.clientKeyPassphrase')
+    .optional({ nullable: true })
+    .isString()
+    .withMessage('Client key passphrase must be a string'),
+  body('connectionOptions.authMechanism')
+    .optional({ nullable: true, checkFalsy: true })
+    .isIn(CONSTANTS.MONGODB.AUTH_MECHANISMS)
+    .withMessage(`Auth mechanism must be one of ${CONSTANTS.MONGODB.AUTH_MECHANISMS.join(', ')}`),
+  body('connectionOptions.authSource')
+    .optional({ nullable: true, checkFalsy: true })
+    .isString()
+    .matches(/^[^\/\\. "$]+$|^\$external$/)
+    .withMessage('Invalid auth source database'),
+  body('connectionOptions.readPreference')
+    .optional({ nullable: true, checkFalsy: true })
+    .isIn(CONSTANTS.MONGODB.READ_PREFERENCES)
+    .withMessage(`Read preference must be one of ${CONSTANTS.MONGODB.READ_PREFERENCES.join(', ')}`),
+  body('connectionOptions.appName')
+    .optional({ nullable: true, checkFalsy: true })
+    .isString()
+    .isLength({ max: CONSTANTS.MONGODB.APP_NAME_MAX_LENGTH })
+    .withMessage(`App name cannot exceed ${CONSTANTS.MONGODB.APP_NAME_MAX_LENGTH} characters`)
+];
+
 // Connection validation - only mongoUri required
 export const validateConnectionOnly = [
   body('mongoUri')
@@ -69,6 +636,7 @@ export const validateConnectionOnly = [
       }
       return true;
     }),
+  ...connectionOptionsRules,
   handleValidationErrors
 ];
 
@@ -96,6 +664,9 @@ export const validateCreateProject = [
     .optional()
     .isString()
     .withMessage('API key must be a string'),
+  ...projectLabelRules,
+  ...projectDatabasesRules,
+  ...connectionOptionsRules,
   handleValidationErrors
 ];
 
@@ -112,6 +683,82 @@ export const validateUpdateProject = [
     .optional()
     .isString()
     .withMessage('API key must be a string'),
+  ...projectLabelRules,
+  ...projectDatabasesRules,
+  ...connectionOptionsRules,
+  handleValidationErrors
+];
+
+export const validateProjectFilters = [
+  query('state')
+    .optional()
+    .isIn(['active', 'archived', 'deleted'])
+    .withMessage('State must be one of active, archived, deleted'),
+  query('search')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: CONSTANTS.VALIDATION.PROJECT_SEARCH_MAX_LENGTH })
+    .withMessage(`Search cannot exceed ${CONSTANTS.VALIDATION.PROJECT_SEARCH_MAX_LENGTH} characters`),
+  query('tag')
+    .optional()
+    .custom((value) => {
+      const tags = Array.isArray(value) ? value : [value];
+      if (tags.some(tag => typeof tag !== 'string')) {
+        throw new Error('Tag must be a string');
+      }
+      return true;
+    }),
+  query('folder')
+    .optional()
+    .custom(isFolderPath),
+  query('status')
+    .optional()
+    .isIn(['connected', 'idle', 'disconnected'])
+    .withMessage('Status must be one of connected, idle, disconnected'),
+  query('createdBy')
+    .optional()
+    .custom((value) => value === 'me' || REGEX_PATTERNS.OBJECT_ID.test(value))
+    .withMessage('Creator must be a user ID or "me"'),
+  handleValidationErrors
+];
+
+export const validateProjectHealth = [
+  param('id')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid project ID'),
+  query('range')
+    .optional()
+    .isIn(Object.keys(CONSTANTS.HEALTH_CHECK.RANGES))
+    .withMessage(`Range must be one of ${Object.keys(CONSTANTS.HEALTH_CHECK.RANGES).join(', ')}`),
+  handleValidationErrors
+];
+
+export const validateExportProject = [
+  param('id')
+    .matches(REGEX_PATTERNS.OBJECT_ID)
+    .withMessage('Invalid project ID'),
+  header(CONSTANTS.PROJECT_BUNDLE.PASSPHRASE_HEADER)
+    .isLength({ min: CONSTANTS.PROJECT_BUNDLE.MIN_PASSPHRASE_LENGTH })
+    .withMessage(`A passphrase of at least ${CONSTANTS.PROJECT_BUNDLE.MIN_PASSPHRASE_LENGTH} characters is required in the ${CONSTANTS.PROJECT_BUNDLE.PASSPHRASE_HEADER} header`),
+  handleValidationErrors
+];
+
+export const validateImportProject = [
+  body('bundle')
+    .isObject()
+    .withMessage('Bundle must be an exported project bundle'),
+  body('passphrase')
+    .isString()
+    .notEmpty()
+    .withMessage('Passphrase is required'),
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Project name cannot be empty')
+    .isLength({ max: CONSTANTS.VALIDATION.PROJECT_NAME_MAX_LENGTH })
+    .withMessage(`Project name cannot exceed ${CONSTANTS.VALIDATION.PROJECT_NAME_MAX_LENGTH} characters`),
   handleValidationErrors
 ];
 
@@ -126,9 +773,6 @@ export const validateCreateOrganization = [
 ];
 
 export const validateInviteMember = [
-  param('id')
-    .matches(REGEX_PATTERNS.OBJECT_ID)
-    .withMessage('Invalid organization ID'),
   body('email')
     .isEmail()
     .normalizeEmail()
@@ -163,7 +807,7 @@ export const validatePagination = [
     .withMessage(`Limit must be between 1 and ${CONSTANTS.PAGINATION.MAX_LIMIT}`),
   query('sortBy')
     .optional()
-    .isIn(['createdAt', 'updatedAt', 'name', 'lastAccessed'])
+    .isIn(['createdAt', 'updatedAt', 'name', 'lastAccessed', 'size'])
     .withMessage('Invalid sort field'),
   query('order')
     .optional()
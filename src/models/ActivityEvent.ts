@@ -0,0 +1,67 @@
+import mongoose, { Schema } from 'mongoose';
+import { IActivityEvent } from '../types';
+import { CONSTANTS } from '../utils/constants';
+
+const activityEventSchema = new Schema<IActivityEvent>({
+  organizationId: {
+    type: 'ObjectId' as any,
+    ref: 'Organization',
+    required: true
+  },
+  actor: {
+    type: {
+      type: String,
+      enum: ['user', 'service_account'],
+      required: true
+    },
+    id: {
+      type: 'ObjectId' as any,
+      required: true
+    },
+    // Email or service account name at the time of the event
+    label: {
+      type: String,
+      required: true
+    },
+    apiTokenId: {
+      type: 'ObjectId' as any,
+      default: null
+    }
+  },
+  action: {
+    type: String,
+    required: true
+  },
+  target: {
+    type: {
+      type: String,
+      required: true
+    },
+    id: {
+      type: 'ObjectId' as any,
+      default: null
+    },
+    name: String
+  },
+  // Field-level summary; secret values are never stored
+  changes: [{
+    _id: false,
+    field: String,
+    from: Schema.Types.Mixed,
+    to: Schema.Types.Mixed
+  }],
+  metadata: Schema.Types.Mixed,
+  ipAddress: String,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Indexes
+activityEventSchema.index({ organizationId: 1, createdAt: -1, _id: -1 });
+activityEventSchema.index({ organizationId: 1, 'actor.id': 1, createdAt: -1 });
+activityEventSchema.index({ organizationId: 1, action: 1, createdAt: -1 });
+activityEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: CONSTANTS.ACTIVITY.RETENTION });
+
+export const ActivityEvent = mongoose.model<IActivityEvent>('ActivityEvent', activityEventSchema);
@@ -0,0 +1,89 @@
+import mongoose, { Schema } from 'mongoose';
+import { IApiToken } from '../types';
+
+const apiTokenSchema = new Schema<IApiToken>({
+  name: {
+    type: String,
+    required: [true, 'Token name is required'],
+    trim: true,
+    maxlength: [100, 'Token name cannot exceed 100 characters']
+  },
+  type: {
+    type: String,
+    enum: ['personal', 'service'],
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false
+  },
+  // First characters of the token, shown so users can tell tokens apart
+  tokenPrefix: {
+    type: String,
+    required: true
+  },
+  organizationId: {
+    type: 'ObjectId' as any,
+    ref: 'Organization',
+    required: true
+  },
+  userId: {
+    type: 'ObjectId' as any,
+    ref: 'User',
+    default: null
+  },
+  serviceAccountId: {
+    type: 'ObjectId' as any,
+    ref: 'ServiceAccount',
+    default: null
+  },
+  role: {
+    type: String,
+    enum: ['admin', 'editor', 'viewer'],
+    default: 'viewer'
+  },
+  // Empty means every project in the organization
+  projectIds: [{
+    type: 'ObjectId' as any,
+    ref: 'Project'
+  }],
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null
+  },
+  lastUsedIp: {
+    type: String,
+    default: null
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  createdBy: {
+    type: 'ObjectId' as any,
+    ref: 'User',
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Instance methods
+apiTokenSchema.methods.isActive = function(): boolean {
+  return !this.revokedAt && this.expiresAt > new Date();
+};
+
+// Indexes
+apiTokenSchema.index({ userId: 1, type: 1 });
+apiTokenSchema.index({ serviceAccountId: 1 });
+apiTokenSchema.index({ organizationId: 1 });
+
+export const ApiToken = mongoose.model<IApiToken>('ApiToken', apiTokenSchema);
@@ -0,0 +1,84 @@
+import mongoose, { Schema } from 'mongoose';
+import { IInvitation } from '../types';
+
+const invitationSchema = new Schema<IInvitation>({
+  organizationId: {
+    type: 'ObjectId' as any,
+    ref: 'Organization',
+    required: true
+  },
+  email: {
+    type: String,
+    required: [true, 'Email is required'],
+    lowercase: true,
+    trim: true
+  },
+  role: {
+    type: String,
+    enum: ['admin', 'editor', 'viewer'],
+    default: 'viewer'
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false
+  },
+  invitedBy: {
+    type: 'ObjectId' as any,
+    ref: 'User',
+    required: true
+  },
+  // Set once an account with the invited email exists
+  userId: {
+    type: 'ObjectId' as any,
+    ref: 'User',
+    default: null
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'accepted', 'declined', 'revoked'],
+    default: 'pending'
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  lastSentAt: {
+    type: Date,
+    default: Date.now
+  },
+  respondedAt: {
+    type: Date,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Update timestamp on save
+invitationSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// Instance methods
+invitationSchema.methods.isPending = function(): boolean {
+  return this.status === 'pending' && this.expiresAt > new Date();
+};
+
+// Indexes
+invitationSchema.index(
+  { organizationId: 1, email: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+invitationSchema.index({ email: 1, status: 1 });
+invitationSchema.index({ userId: 1, status: 1 });
+
+export const Invitation = mongoose.model<IInvitation>('Invitation', invitationSchema);
@@ -24,18 +24,146 @@ const organizationSchema = new Schema<IOrganization>({
       enum: ['admin', 'editor', 'viewer'],
       default: 'viewer'
     },
+    // When set, the custom role's permissions replace those of the base role
+    customRoleId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Role',
+      default: null
+    },
     joinedAt: {
       type: Date,
       default: Date.now
     }
   }],
   settings: {
+    plan: {
+      type: String,
+      enum: ['free', 'pro', 'enterprise'],
+      default: 'free'
+    },
     allowedDomains: [String],
+    // Overrides the plan limit when set
     maxProjects: {
       type: Number,
-      default: 10
+      default: null
+    },
+    // Granted on top of the plan's features
+    features: [String],
+    requireTwoFactor: {
+      type: Boolean,
+      default: false
+    },
+    requireVerifiedEmail: {
+      type: Boolean,
+      default: false
+    },
+    // Domains proven through a DNS TXT record; required for auto-join
+    verifiedDomains: [{
+      _id: false,
+      domain: {
+        type: String,
+        required: true,
+        lowercase: true,
+        trim: true
+      },
+      verificationToken: {
+        type: String,
+        required: true
+      },
+      verifiedAt: {
+        type: Date,
+        default: null
+      },
+      createdAt: {
+        type: Date,
+        default: Date.now
+      }
+    }],
+    autoJoin: {
+      enabled: {
+        type: Boolean,
+        default: false
+      },
+      defaultRole: {
+        type: String,
+        enum: ['admin', 'editor', 'viewer'],
+        default: 'viewer'
+      }
+    },
+    sso: {
+      enabled: {
+        type: Boolean,
+        default: false
+      },
+      // Password login is refused for members when set
+      enforced: {
+        type: Boolean,
+        default: false
+      },
+      issuer: String,
+      clientId: String,
+      clientSecret: {
+        type: String,
+        select: false
+      },
+      scopes: String,
+      groupsClaim: String,
+      roleMappings: [{
+        _id: false,
+        group: {
+          type: String,
+          required: true
+        },
+        role: {
+          type: String,
+          enum: ['admin', 'editor', 'viewer'],
+          required: true
+        }
+      }],
+      defaultRole: {
+        type: String,
+        enum: ['admin', 'editor', 'viewer', null],
+        default: null
+      }
+    },
+    // Monthly AI spend caps; null means uncapped. Cost is in USD.
+    aiBudget: {
+      monthlyTokens: {
+        type: Number,
+        default: null
+      },
+      monthlyCost: {
+        type: Number,
+        default: null
+      },
+      memberMonthlyTokens: {
+        type: Number,
+        default: null
+      },
+      memberMonthlyCost: {
+        type: Number,
+        default: null
+      },
+      warningThresholds: {
+        type: [Number],
+        default: undefined
+      }
+    }
+  },
+  // Budget warnings already sent, keyed per threshold, for one calendar month
+  budgetAlerts: {
+    period: String,
+    sent: [String]
+  },
+  // Set while the organization waits out its deletion grace period
+  deletion: {
+    requestedAt: Date,
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
     },
-    features: [String]
+    scheduledFor: Date,
+    purgeStartedAt: Date
   },
   createdAt: {
     type: Date,
@@ -96,5 +224,8 @@ organizationSchema.methods.hasPermission = function(userId: string, requiredRole
 organizationSchema.index({ owner: 1 });
 organizationSchema.index({ 'members.userId': 1 });
 organizationSchema.index({ createdAt: -1 });
+organizationSchema.index({ 'settings.sso.enforced': 1 });
+organizationSchema.index({ 'deletion.scheduledFor': 1 }, { sparse: true });
+organizationSchema.index({ 'settings.verifiedDomains.domain': 1 });
 
 export const Organization = mongoose.model<IOrganization>('Organization', organizationSchema);
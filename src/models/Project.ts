@@ -1,6 +1,20 @@
 import mongoose, { Schema } from 'mongoose';
 import CryptoJS from 'crypto-js';
-import { IProject } from '../types';
+import { IProject, MongoConnectionOptions } from '../types';
+import { CONSTANTS } from '../utils/constants';
+
+// Client certificate material is encrypted at rest like the URI
+const ENCRYPTED_CONNECTION_OPTIONS = ['clientCertificate', 'clientKey', 'clientKeyPassphrase'];
+
+// Tags are matched case-insensitively, so they are stored lowercase and once each
+const normalizeTags = (values: string[]): string[] =>
+  Array.from(new Set((values || []).map(tag => String(tag).trim().toLowerCase()).filter(Boolean)));
+
+// Folder paths are stored without leading, trailing or doubled slashes
+const normalizeFolder = (value: string | null): string | null => {
+  if (!value) return null;
+  return String(value).split('/').map(segment => segment.trim()).filter(Boolean).join('/') || null;
+};
 
 const projectSchema = new Schema<IProject>({
   name: {
@@ -22,13 +36,40 @@ const projectSchema = new Schema<IProject>({
     type: String,
     default: null
   },
+  connectionOptions: {
+    caCertificate: String,
+    clientCertificate: String,
+    clientKey: String,
+    clientKeyPassphrase: String,
+    authMechanism: {
+      type: String,
+      enum: CONSTANTS.MONGODB.AUTH_MECHANISMS
+    },
+    authSource: String,
+    readPreference: {
+      type: String,
+      enum: CONSTANTS.MONGODB.READ_PREFERENCES
+    },
+    appName: String
+  },
   databaseName: {
     type: String,
     required: true
   },
+  databases: {
+    type: [String],
+    default: []
+  },
   schemaCache: {
     databaseName: String,
+    databases: [{
+      _id: false,
+      name: String,
+      totalCollections: Number,
+      totalDocuments: Number
+    }],
     collections: [{
+      database: String,
       name: String,
       fields: [Schema.Types.Mixed],
       sampleDocument: Schema.Types.Mixed,
@@ -36,6 +77,7 @@ const projectSchema = new Schema<IProject>({
       indexes: [Schema.Types.Mixed]
     }],
     relationships: [{
+      database: String,
       from: String,
       to: String,
       type: {
@@ -52,11 +94,58 @@ const projectSchema = new Schema<IProject>({
     },
     lastSynced: Date
   },
+  tags: {
+    type: [String],
+    default: [],
+    set: normalizeTags
+  },
+  folder: {
+    type: String,
+    default: null,
+    set: normalizeFolder
+  },
   createdBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
     required: true
   },
+  visibility: {
+    type: String,
+    enum: ['organization', 'teams'],
+    default: 'organization'
+  },
+  teamIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Team'
+  }],
+  state: {
+    type: String,
+    enum: ['active', 'archived', 'deleted'],
+    default: 'active'
+  },
+  archivedAt: {
+    type: Date,
+    default: null
+  },
+  deletedAt: {
+    type: Date,
+    default: null
+  },
+  // When a deleted project is removed for good
+  purgeAt: {
+    type: Date,
+    default: null
+  },
+  health: {
+    status: {
+      type: String,
+      enum: ['up', 'down']
+    },
+    checkedAt: Date,
+    since: Date,
+    latencyMs: Number,
+    error: String
+  },
   lastAccessed: {
     type: Date,
     default: Date.now
@@ -98,6 +187,14 @@ projectSchema.pre('save', function(next) {
       console.error('Encryption error:', error);
     }
   }
+
+  for (const field of ENCRYPTED_CONNECTION_OPTIONS) {
+    const path = `connectionOptions.${field}`;
+    const value = this.get(path);
+    if (this.isModified(path) && value && !value.startsWith('U2FsdGVkX1')) {
+      this.set(path, CryptoJS.AES.encrypt(value, process.env.ENCRYPTION_KEY!).toString());
+    }
+  }
   
   this.updatedAt = new Date();
   next();
@@ -146,6 +243,33 @@ projectSchema.methods.getDecryptedApiKey = function(): string | null {
   }
 };
 
+// Connection options with certificate material decrypted, unset fields omitted
+projectSchema.methods.getConnectionOptions = function(): MongoConnectionOptions {
+  const stored = this.toObject().connectionOptions || {};
+  const options: Record<string, string> = {};
+
+  for (const [field, value] of Object.entries(stored)) {
+    if (typeof value !== 'string' || !value) continue;
+
+    if (ENCRYPTED_CONNECTION_OPTIONS.includes(field) && value.startsWith('U2FsdGVkX1')) {
+      const decrypted = CryptoJS.AES.decrypt(value, process.env.ENCRYPTION_KEY!).toString(CryptoJS.enc.Utf8);
+      if (!decrypted) {
+        throw new Error(`Failed to decrypt connection option ${field}`);
+      }
+      options[field] = decrypted;
+    } else {
+      options[field] = value;
+    }
+  }
+
+  return options as MongoConnectionOptions;
+};
+
+// Databases the project includes, primary first
+projectSchema.methods.getDatabases = function(): string[] {
+  return Array.from(new Set([this.databaseName, ...(this.databases || [])]));
+};
+
 // Update last accessed
 projectSchema.methods.updateLastAccessed = async function(): Promise<void> {
   this.lastAccessed = new Date();
@@ -156,8 +280,10 @@ projectSchema.methods.updateLastAccessed = async function(): Promise<void> {
 projectSchema.methods.updateSchemaCache = async function(schema: any): Promise<void> {
   this.schemaCache = {
     databaseName: this.databaseName,
+    databases: schema.databases,
     collections: schema.collections,
     relationships: schema.relationships,
+    stats: schema.stats,
     lastSynced: new Date()
   };
   await this.save();
@@ -171,17 +297,27 @@ projectSchema.methods.needsSchemaRefresh = function(): boolean {
   return this.schemaCache.lastSynced < thirtyMinutesAgo;
 };
 
-// Virtual for connection status
-projectSchema.virtual('connectionStatus').get(function() {
+// Virtual for connection status; a recent health check wins over schema sync time
+projectSchema.virtual('connectionStatus').get(function(this: IProject) {
+  const staleAfter = CONSTANTS.HEALTH_CHECK.INTERVAL * CONSTANTS.HEALTH_CHECK.STALE_AFTER_INTERVALS;
+  if (this.health?.checkedAt && Date.now() - this.health.checkedAt.getTime() < staleAfter) {
+    return this.health.status === 'up' ? 'connected' : 'disconnected';
+  }
+
   if (!this.schemaCache?.lastSynced) return 'disconnected';
   
-  const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-  return this.schemaCache.lastSynced > fiveMinutesAgo ? 'connected' : 'idle';
+  const connectedSince = new Date(Date.now() - CONSTANTS.HEALTH_CHECK.SYNC_CONNECTED_WINDOW);
+  return this.schemaCache.lastSynced > connectedSince ? 'connected' : 'idle';
 });
 
 // Indexes
 projectSchema.index({ organizationId: 1, createdAt: -1 });
 projectSchema.index({ createdBy: 1 });
+projectSchema.index({ organizationId: 1, teamIds: 1 });
+projectSchema.index({ organizationId: 1, state: 1 });
+projectSchema.index({ state: 1, purgeAt: 1 });
+projectSchema.index({ organizationId: 1, tags: 1 });
+projectSchema.index({ organizationId: 1, folder: 1 });
 projectSchema.index({ name: 'text' });
 
 export const Project = mongoose.model<IProject>('Project', projectSchema);
\ No newline at end of file
@@ -0,0 +1,40 @@
+import mongoose, { Schema } from 'mongoose';
+import { IProjectHealthCheck } from '../types';
+import { CONSTANTS } from '../utils/constants';
+
+const projectHealthCheckSchema = new Schema<IProjectHealthCheck>({
+  projectId: {
+    type: 'ObjectId' as any,
+    ref: 'Project',
+    required: true
+  },
+  organizationId: {
+    type: 'ObjectId' as any,
+    ref: 'Organization',
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['up', 'down'],
+    required: true
+  },
+  latencyMs: {
+    type: Number,
+    default: null
+  },
+  error: {
+    type: String,
+    default: null
+  },
+  checkedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Indexes
+projectHealthCheckSchema.index({ projectId: 1, checkedAt: -1 });
+projectHealthCheckSchema.index({ organizationId: 1 });
+projectHealthCheckSchema.index({ checkedAt: 1 }, { expireAfterSeconds: CONSTANTS.HEALTH_CHECK.RETENTION });
+
+export const ProjectHealthCheck = mongoose.model<IProjectHealthCheck>('ProjectHealthCheck', projectHealthCheckSchema);
@@ -0,0 +1,39 @@
+import mongoose, { Schema } from 'mongoose';
+import { IRefreshToken } from '../types';
+
+const refreshTokenSchema = new Schema<IRefreshToken>({
+  userId: {
+    type: 'ObjectId' as any,
+    ref: 'User',
+    required: true
+  },
+  sessionId: {
+    type: 'ObjectId' as any,
+    ref: 'Session',
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Indexes
+refreshTokenSchema.index({ sessionId: 1 });
+refreshTokenSchema.index({ userId: 1 });
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
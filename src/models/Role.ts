@@ -0,0 +1,51 @@
+import mongoose, { Schema } from 'mongoose';
+import { IRole } from '../types';
+import { CONSTANTS } from '../utils/constants';
+
+const roleSchema = new Schema<IRole>({
+  organizationId: {
+    type: 'ObjectId' as any,
+    ref: 'Organization',
+    required: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Role name is required'],
+    trim: true,
+    maxlength: [50, 'Role name cannot exceed 50 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters'],
+    default: null
+  },
+  permissions: [{
+    type: String,
+    enum: Object.keys(CONSTANTS.PERMISSIONS)
+  }],
+  createdBy: {
+    type: 'ObjectId' as any,
+    ref: 'User',
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Update timestamp on save
+roleSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// Indexes
+roleSchema.index({ organizationId: 1, name: 1 }, { unique: true });
+
+export const Role = mongoose.model<IRole>('Role', roleSchema);
@@ -0,0 +1,55 @@
+import mongoose, { Schema } from 'mongoose';
+import { IServiceAccount } from '../types';
+
+const serviceAccountSchema = new Schema<IServiceAccount>({
+  organizationId: {
+    type: 'ObjectId' as any,
+    ref: 'Organization',
+    required: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Service account name is required'],
+    trim: true,
+    maxlength: [100, 'Service account name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters'],
+    default: null
+  },
+  role: {
+    type: String,
+    enum: ['admin', 'editor', 'viewer'],
+    default: 'viewer'
+  },
+  createdBy: {
+    type: 'ObjectId' as any,
+    ref: 'User',
+    required: true
+  },
+  disabledAt: {
+    type: Date,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Update timestamp on save
+serviceAccountSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// Indexes
+serviceAccountSchema.index({ organizationId: 1, name: 1 }, { unique: true });
+
+export const ServiceAccount = mongoose.model<IServiceAccount>('ServiceAccount', serviceAccountSchema);
@@ -0,0 +1,53 @@
+import mongoose, { Schema } from 'mongoose';
+import { ISession } from '../types';
+
+const sessionSchema = new Schema<ISession>({
+  userId: {
+    type: 'ObjectId' as any,
+    ref: 'User',
+    required: true
+  },
+  deviceName: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Device name cannot exceed 100 characters'],
+    default: 'Unknown device'
+  },
+  userAgent: {
+    type: String,
+    default: null
+  },
+  ipAddress: {
+    type: String,
+    default: null
+  },
+  lastActiveAt: {
+    type: Date,
+    default: Date.now
+  },
+  // Set to the newest refresh token's expiry each time the session rotates
+  expiresAt: Date,
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Instance methods
+sessionSchema.methods.isActive = function(): boolean {
+  return !this.revokedAt && (!this.expiresAt || this.expiresAt > new Date());
+};
+
+// Indexes
+sessionSchema.index({ userId: 1, lastActiveAt: -1 });
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISession>('Session', sessionSchema);
@@ -0,0 +1,46 @@
+import mongoose, { Schema } from 'mongoose';
+import { ISsoLoginState } from '../types';
+
+const ssoLoginStateSchema = new Schema<ISsoLoginState>({
+  state: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  organizationId: {
+    type: 'ObjectId' as any,
+    ref: 'Organization',
+    required: true
+  },
+  codeVerifier: {
+    type: String,
+    required: true
+  },
+  nonce: {
+    type: String,
+    required: true
+  },
+  redirectUri: {
+    type: String,
+    required: true
+  },
+  // Set when a signed-in user is linking the identity to their account
+  linkUserId: {
+    type: 'ObjectId' as any,
+    ref: 'User',
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Indexes
+ssoLoginStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const SsoLoginState = mongoose.model<ISsoLoginState>('SsoLoginState', ssoLoginStateSchema);
@@ -0,0 +1,51 @@
+import mongoose, { Schema } from 'mongoose';
+import { ITeam } from '../types';
+
+const teamSchema = new Schema<ITeam>({
+  organizationId: {
+    type: 'ObjectId' as any,
+    ref: 'Organization',
+    required: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Team name is required'],
+    trim: true,
+    maxlength: [100, 'Team name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters'],
+    default: null
+  },
+  members: [{
+    type: 'ObjectId' as any,
+    ref: 'User'
+  }],
+  createdBy: {
+    type: 'ObjectId' as any,
+    ref: 'User',
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Update timestamp on save
+teamSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// Indexes
+teamSchema.index({ organizationId: 1, name: 1 }, { unique: true });
+teamSchema.index({ organizationId: 1, members: 1 });
+
+export const Team = mongoose.model<ITeam>('Team', teamSchema);
@@ -0,0 +1,59 @@
+import mongoose, { Schema } from 'mongoose';
+import { IUsageRecord } from '../types';
+
+const usageRecordSchema = new Schema<IUsageRecord>({
+  organizationId: {
+    type: 'ObjectId' as any,
+    ref: 'Organization',
+    required: true
+  },
+  projectId: {
+    type: 'ObjectId' as any,
+    ref: 'Project',
+    default: null
+  },
+  // A user or a service account
+  userId: {
+    type: 'ObjectId' as any,
+    default: null
+  },
+  aiModel: {
+    type: String,
+    required: true
+  },
+  operation: {
+    type: String,
+    required: true
+  },
+  promptTokens: {
+    type: Number,
+    default: 0
+  },
+  completionTokens: {
+    type: Number,
+    default: 0
+  },
+  totalTokens: {
+    type: Number,
+    default: 0
+  },
+  estimatedCost: {
+    type: Number,
+    default: 0
+  },
+  estimated: {
+    type: Boolean,
+    default: false
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Indexes
+usageRecordSchema.index({ organizationId: 1, createdAt: -1 });
+usageRecordSchema.index({ organizationId: 1, userId: 1, createdAt: -1 });
+usageRecordSchema.index({ organizationId: 1, projectId: 1, createdAt: -1 });
+
+export const UsageRecord = mongoose.model<IUsageRecord>('UsageRecord', usageRecordSchema);
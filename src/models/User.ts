@@ -29,10 +29,96 @@ const userSchema = new Schema<IUser>({
     type: String,
     default: null
   },
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  emailVerifiedAt: {
+    type: Date,
+    default: null
+  },
+  emailVerification: {
+    tokenHash: {
+      type: String,
+      select: false
+    },
+    expiresAt: {
+      type: Date,
+      select: false
+    },
+    lastSentAt: {
+      type: Date,
+      select: false
+    }
+  },
   organizations: [{
     type: Schema.Types.ObjectId,
     ref: 'Organization'
   }],
+  twoFactor: {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    secret: {
+      type: String,
+      select: false
+    },
+    pendingSecret: {
+      type: String,
+      select: false
+    },
+    recoveryCodes: {
+      type: [String],
+      select: false
+    },
+    lastUsedStep: {
+      type: Number,
+      select: false
+    },
+    enabledAt: Date
+  },
+  passwordReset: {
+    tokenHash: {
+      type: String,
+      select: false
+    },
+    expiresAt: {
+      type: Date,
+      select: false
+    }
+  },
+  // Failed sign-in tracking, shared by every backend instance
+  loginSecurity: {
+    failedAttempts: {
+      type: Number,
+      default: 0
+    },
+    lastFailedAt: Date,
+    nextAttemptAt: Date,
+    lockedUntil: Date
+  },
+  // Identities linked through organization single sign-on
+  ssoIdentities: [{
+    _id: false,
+    issuer: {
+      type: String,
+      required: true
+    },
+    subject: {
+      type: String,
+      required: true
+    },
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true
+    },
+    lastLoginAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
   createdAt: {
     type: Date,
     default: Date.now
@@ -68,12 +154,13 @@ userSchema.methods.comparePassword = async function(candidatePassword: string):
 };
 
 // Generate access token
-userSchema.methods.generateAccessToken = function(): string {
+userSchema.methods.generateAccessToken = function(sessionId: string): string {
   return jwt.sign(
     {
       userId: this._id,
       email: this.email,
-      organizationId: this.organizations[0] || null
+      organizationId: this.organizations[0] || null,
+      sessionId
     },
     process.env.JWT_SECRET! as string,
     { expiresIn: CONSTANTS.JWT.ACCESS_TOKEN_EXPIRE } as any
@@ -81,9 +168,9 @@ userSchema.methods.generateAccessToken = function(): string {
 };
 
 // Generate refresh token
-userSchema.methods.generateRefreshToken = function(): string {
+userSchema.methods.generateRefreshToken = function(sessionId: string, tokenId: string): string {
   return jwt.sign(
-    { userId: this._id },
+    { userId: this._id, sessionId, tokenId },
     process.env.JWT_REFRESH_SECRET! as string,
     { expiresIn: CONSTANTS.JWT.REFRESH_TOKEN_EXPIRE } as any
   );
@@ -97,5 +184,8 @@ userSchema.methods.updateLastLogin = async function(): Promise<void> {
 
 // Only one index definition - removed duplicate
 userSchema.index({ email: 1 });
+userSchema.index({ 'passwordReset.tokenHash': 1 }, { sparse: true });
+userSchema.index({ 'emailVerification.tokenHash': 1 }, { sparse: true });
+userSchema.index({ 'ssoIdentities.issuer': 1, 'ssoIdentities.subject': 1 }, { sparse: true });
 
 export const User = mongoose.model<IUser>('User', userSchema);
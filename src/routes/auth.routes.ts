@@ -7,13 +7,42 @@ import {
   forgotPassword,
   resetPassword,
   getCurrentUser,
-  updateProfile
+  updateProfile,
+  exportAccountData,
+  deleteAccount,
+  getSessions,
+  revokeSession,
+  revokeAllSessions,
+  verifyTwoFactorLogin,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  verifyEmail,
+  resendVerificationEmail,
+  getApiTokens,
+  createApiToken,
+  revokeApiToken,
+  startSsoLogin,
+  startSsoLink,
+  completeSsoLogin
 } from '../controllers/auth.controller';
 import {
   validateSignup,
-  validateLogin
+  validateLogin,
+  validateObjectId,
+  validateForgotPassword,
+  validateResetPassword,
+  validateVerifyEmail,
+  validateTwoFactorLogin,
+  validateTwoFactorCode,
+  validateDisableTwoFactor,
+  validateCreateApiToken,
+  validateStartSso,
+  validateSsoCallback,
+  validateDeleteAccount
 } from '../middleware/validation.middleware';
-import { authenticateUser } from '../middleware/auth.middleware';
+import { authenticateUser, requireOrganization, requireSession } from '../middleware/auth.middleware';
 import { authRateLimitMiddleware } from '../middleware/rateLimit.middleware';
 
 const router = Router();
@@ -21,13 +50,39 @@ const router = Router();
 // Public routes
 router.post('/signup', authRateLimitMiddleware, validateSignup, signup);
 router.post('/login', authRateLimitMiddleware, validateLogin, login);
+router.post('/login/2fa', authRateLimitMiddleware, validateTwoFactorLogin, verifyTwoFactorLogin);
+router.post('/sso/start', authRateLimitMiddleware, validateStartSso, startSsoLogin);
+router.post('/sso/callback', authRateLimitMiddleware, validateSsoCallback, completeSsoLogin);
 router.post('/logout', logout);
 router.post('/refresh-token', refreshToken);
-router.post('/forgot-password', authRateLimitMiddleware, forgotPassword);
-router.post('/reset-password', authRateLimitMiddleware, resetPassword);
+router.post('/forgot-password', authRateLimitMiddleware, validateForgotPassword, forgotPassword);
+router.post('/reset-password', authRateLimitMiddleware, validateResetPassword, resetPassword);
+router.post('/verify-email', authRateLimitMiddleware, validateVerifyEmail, verifyEmail);
 
 // Protected routes
 router.get('/me', authenticateUser, getCurrentUser);
 router.patch('/profile', authenticateUser, updateProfile);
+router.get('/me/export', authenticateUser, requireSession, exportAccountData);
+router.delete('/me', authenticateUser, requireSession, validateDeleteAccount, deleteAccount);
+router.post('/verify-email/resend', authenticateUser, requireSession, resendVerificationEmail);
+
+// Session management
+router.get('/sessions', authenticateUser, requireSession, getSessions);
+router.delete('/sessions', authenticateUser, requireSession, revokeAllSessions);
+router.delete('/sessions/:id', authenticateUser, requireSession, validateObjectId, revokeSession);
+
+// Two-factor authentication
+router.post('/2fa/setup', authenticateUser, requireSession, setupTwoFactor);
+router.post('/2fa/enable', authenticateUser, requireSession, validateTwoFactorCode, enableTwoFactor);
+router.post('/2fa/disable', authenticateUser, requireSession, validateDisableTwoFactor, disableTwoFactor);
+router.post('/2fa/recovery-codes', authenticateUser, requireSession, validateTwoFactorCode, regenerateRecoveryCodes);
+
+// SSO identities
+router.post('/sso/link', authenticateUser, requireSession, validateStartSso, startSsoLink);
+
+// Personal access tokens
+router.get('/tokens', authenticateUser, requireSession, getApiTokens);
+router.post('/tokens', authenticateUser, requireSession, requireOrganization, validateCreateApiToken, createApiToken);
+router.delete('/tokens/:id', authenticateUser, requireSession, validateObjectId, revokeApiToken);
 
 export default router;
\ No newline at end of file
@@ -8,20 +8,27 @@ import {
   executeQuery
 } from '../controllers/chat.controller';
 import { validateSendMessage } from '../middleware/validation.middleware';
-import { authenticateUser, requireOrganization } from '../middleware/auth.middleware';
+import { authenticateUser, requireOrganization, requireVerifiedEmail, enforceTokenProjectScope, enforceBodyProjectScope, requireProjectAccess, requireBodyProjectAccess, requireBodyActiveProject, requirePermission } from '../middleware/auth.middleware';
 import { aiRateLimitMiddleware } from '../middleware/rateLimit.middleware';
+import { requireAiBudget, requireFeature, requireQuota } from '../middleware/entitlement.middleware';
 
 const router = Router();
 
 router.use(authenticateUser);
 router.use(requireOrganization);
+router.use(requireVerifiedEmail);
+router.use(enforceBodyProjectScope);
+router.use(requireBodyProjectAccess);
+router.use(requireBodyActiveProject);
+router.param('projectId', enforceTokenProjectScope);
+router.param('projectId', requireProjectAccess);
 
 // Chat operations
-router.post('/message', aiRateLimitMiddleware, validateSendMessage, sendMessage);
-router.post('/stream', aiRateLimitMiddleware, validateSendMessage, streamMessage);
-router.get('/history/:projectId', getChatHistory);
-router.delete('/history/:projectId', clearChatHistory);
-router.post('/suggestions', getSuggestions);
-router.post('/query', executeQuery);
+router.post('/message', requirePermission('chat.use'), aiRateLimitMiddleware, requireQuota('aiMessages'), requireAiBudget, validateSendMessage, sendMessage);
+router.post('/stream', requirePermission('chat.use'), aiRateLimitMiddleware, requireFeature('streaming'), requireQuota('aiMessages'), requireAiBudget, validateSendMessage, streamMessage);
+router.get('/history/:projectId', requirePermission('chat.use'), getChatHistory);
+router.delete('/history/:projectId', requirePermission('chat.use'), clearChatHistory);
+router.post('/suggestions', requirePermission('chat.use'), getSuggestions);
+router.post('/query', requirePermission('query.raw'), executeQuery);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import {
+  getMyInvitations,
+  acceptInvitation,
+  declineInvitation
+} from '../controllers/invitations.controller';
+import { validateObjectId, validateInvitationToken } from '../middleware/validation.middleware';
+import { authenticateUser, requireSession } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(authenticateUser, requireSession);
+
+// Invitations addressed to the current user
+router.get('/', getMyInvitations);
+router.post('/accept', validateInvitationToken, acceptInvitation);
+router.post('/decline', validateInvitationToken, declineInvitation);
+router.post('/:id/accept', validateObjectId, acceptInvitation);
+router.post('/:id/decline', validateObjectId, declineInvitation);
+
+export default router;
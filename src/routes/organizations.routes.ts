@@ -2,20 +2,83 @@ import { Router } from 'express';
 import {
   createOrganization,
   getOrganization,
+  getUsage,
+  getActivity,
+  getAiUsage,
+  getAiBudget,
+  updateAiBudget,
   updateOrganization,
   inviteMember,
   removeMember,
   updateMemberRole,
+  unlockMember,
+  transferOwnership,
+  deleteOrganization,
+  restoreOrganization,
+  getDomains,
+  addDomain,
+  verifyDomain,
+  removeDomain,
+  updateAutoJoin,
   leaveOrganization,
   getMembers,
-  switchOrganization
+  switchOrganization,
+  getServiceAccounts,
+  createServiceAccount,
+  disableServiceAccount,
+  getServiceAccountTokens,
+  createServiceAccountToken,
+  revokeServiceAccountToken,
+  getSsoSettings,
+  updateSsoSettings
 } from '../controllers/organizations.controller';
+import {
+  getInvitations,
+  resendInvitation,
+  revokeInvitation
+} from '../controllers/invitations.controller';
+import {
+  getTeams,
+  createTeam,
+  updateTeam,
+  deleteTeam,
+  addTeamMember,
+  removeTeamMember
+} from '../controllers/teams.controller';
+import {
+  getRoles,
+  createRole,
+  updateRole,
+  deleteRole
+} from '../controllers/roles.controller';
 import {
   validateCreateOrganization,
   validateInviteMember,
-  validateObjectId
+  validateObjectId,
+  validateCreateServiceAccount,
+  validateCreateApiToken,
+  validateServiceAccountTokenParams,
+  validateSsoSettings,
+  validateTransferOwnership,
+  validateDeleteOrganization,
+  validateDomain,
+  validateDomainParam,
+  validateAutoJoin,
+  validateCreateTeam,
+  validateUpdateTeam,
+  validateTeamId,
+  validateAddTeamMember,
+  validateTeamMemberParams,
+  validateUpdateMemberRole,
+  validateCreateRole,
+  validateUpdateRole,
+  validateRoleId,
+  validateActivityQuery,
+  validateAiUsageQuery,
+  validateAiBudget
 } from '../middleware/validation.middleware';
-import { authenticateUser, requireOrganization, requireRole } from '../middleware/auth.middleware';
+import { authenticateUser, requireOrganization, requirePermission, requireSession } from '../middleware/auth.middleware';
+import { requireQuota } from '../middleware/entitlement.middleware';
 
 const router = Router();
 
@@ -24,14 +87,62 @@ router.use(authenticateUser);
 // Organization management
 router.post('/', validateCreateOrganization, createOrganization);
 router.get('/current', requireOrganization, getOrganization);
-router.patch('/current', requireOrganization, requireRole('admin'), updateOrganization);
+router.get('/current/usage', requireOrganization, getUsage);
+router.get('/current/activity', requireOrganization, requirePermission('activity.view'), validateActivityQuery, getActivity);
+router.get('/current/ai-usage', requireOrganization, requirePermission('usage.view'), validateAiUsageQuery, getAiUsage);
+router.get('/current/ai-budget', requireOrganization, requirePermission('usage.view'), getAiBudget);
+router.put('/current/ai-budget', requireOrganization, requirePermission('organization.manage'), validateAiBudget, updateAiBudget);
+router.patch('/current', requireOrganization, requirePermission('organization.manage'), updateOrganization);
+router.delete('/current', requireSession, requireOrganization, validateDeleteOrganization, deleteOrganization);
+router.post('/current/restore', requireSession, restoreOrganization);
+router.post('/current/transfer-ownership', requireSession, requireOrganization, validateTransferOwnership, transferOwnership);
 router.post('/switch/:id', validateObjectId, switchOrganization);
 
 // Member management
 router.get('/current/members', requireOrganization, getMembers);
-router.post('/current/invite', requireOrganization, requireRole('admin'), validateInviteMember, inviteMember);
-router.delete('/current/members/:userId', requireOrganization, requireRole('admin'), removeMember);
-router.patch('/current/members/:userId', requireOrganization, requireRole('admin'), updateMemberRole);
+router.post('/current/invite', requireOrganization, requirePermission('members.invite'), validateInviteMember, requireQuota('members'), inviteMember);
+router.delete('/current/members/:userId', requireOrganization, requirePermission('members.manage'), removeMember);
+router.patch('/current/members/:userId', requireOrganization, requirePermission('members.manage'), validateUpdateMemberRole, updateMemberRole);
+router.post('/current/members/:userId/unlock', requireOrganization, requirePermission('members.manage'), unlockMember);
 router.post('/current/leave', requireOrganization, leaveOrganization);
 
+// Invitations
+router.get('/current/invitations', requireOrganization, requirePermission('members.invite'), getInvitations);
+router.post('/current/invitations/:id/resend', requireOrganization, requirePermission('members.invite'), validateObjectId, resendInvitation);
+router.delete('/current/invitations/:id', requireOrganization, requirePermission('members.invite'), validateObjectId, revokeInvitation);
+
+// Custom roles
+router.get('/current/roles', requireOrganization, getRoles);
+router.post('/current/roles', requireOrganization, requirePermission('roles.manage'), validateCreateRole, createRole);
+router.patch('/current/roles/:roleId', requireOrganization, requirePermission('roles.manage'), validateUpdateRole, updateRole);
+router.delete('/current/roles/:roleId', requireOrganization, requirePermission('roles.manage'), validateRoleId, deleteRole);
+
+// Teams
+router.get('/current/teams', requireOrganization, getTeams);
+router.post('/current/teams', requireOrganization, requirePermission('teams.manage'), validateCreateTeam, createTeam);
+router.patch('/current/teams/:teamId', requireOrganization, requirePermission('teams.manage'), validateUpdateTeam, updateTeam);
+router.delete('/current/teams/:teamId', requireOrganization, requirePermission('teams.manage'), validateTeamId, deleteTeam);
+router.post('/current/teams/:teamId/members', requireOrganization, requirePermission('teams.manage'), validateAddTeamMember, addTeamMember);
+router.delete('/current/teams/:teamId/members/:userId', requireOrganization, requirePermission('teams.manage'), validateTeamMemberParams, removeTeamMember);
+
+// Email domains and auto-join
+router.get('/current/domains', requireOrganization, requirePermission('organization.manage'), getDomains);
+router.post('/current/domains', requireSession, requireOrganization, requirePermission('organization.manage'), validateDomain, addDomain);
+router.put('/current/domains/auto-join', requireSession, requireOrganization, requirePermission('organization.manage'), validateAutoJoin, updateAutoJoin);
+router.post('/current/domains/:domain/verify', requireSession, requireOrganization, requirePermission('organization.manage'), validateDomainParam, verifyDomain);
+router.delete('/current/domains/:domain', requireSession, requireOrganization, requirePermission('organization.manage'), validateDomainParam, removeDomain);
+
+// Single sign-on
+router.get('/current/sso', requireOrganization, requirePermission('organization.manage'), getSsoSettings);
+router.put('/current/sso', requireSession, requireOrganization, requirePermission('organization.manage'), validateSsoSettings, updateSsoSettings);
+
+// Service accounts
+router.use('/current/service-accounts', requireSession, requireOrganization, requirePermission('service_accounts.manage'));
+router.get('/current/service-accounts', getServiceAccounts);
+router.post('/current/service-accounts', validateCreateServiceAccount, createServiceAccount);
+router.delete('/current/service-accounts/:id', validateObjectId, disableServiceAccount);
+router.get('/current/service-accounts/:id/tokens', validateObjectId, getServiceAccountTokens);
+router.post('/current/service-accounts/:id/tokens', validateObjectId, validateCreateApiToken, createServiceAccountToken);
+router.delete('/current/service-accounts/:id/tokens/:tokenId', validateServiceAccountTokenParams, revokeServiceAccountToken);
+
 export default router;
\ No newline at end of file
@@ -8,34 +8,65 @@ import {
   duplicateProject,
   validateConnection,
   listDatabases,
-  getProjectStats
+  getProjectStats,
+  getProjectFacets,
+  getProjectAccess,
+  updateProjectAccess,
+  getProjectHealth,
+  exportProject,
+  importProject,
+  archiveProject,
+  restoreProject
 } from '../controllers/projects.controller';
 import {
   validateCreateProject,
   validateUpdateProject,
   validateObjectId,
   validatePagination,
-  validateConnectionOnly
+  validateProjectFilters,
+  validateConnectionOnly,
+  validateProjectAccess,
+  validateProjectHealth,
+  validateExportProject,
+  validateImportProject
 } from '../middleware/validation.middleware';
-import { authenticateUser, requireOrganization, requireRole } from '../middleware/auth.middleware';
+import { authenticateUser, requireOrganization, requireVerifiedEmail, enforceTokenProjectScope, requireProjectAccess, requirePermission } from '../middleware/auth.middleware';
+import { requireFeature, requireQuota } from '../middleware/entitlement.middleware';
 
 const router = Router();
 
 // All routes require authentication and organization membership
 router.use(authenticateUser);
 router.use(requireOrganization);
+router.use(requireVerifiedEmail);
+router.param('id', enforceTokenProjectScope);
+router.param('id', requireProjectAccess);
 
 // Connection validation endpoints
 router.post('/validate-connection', validateConnectionOnly, validateConnection);
 router.post('/list-databases', validateConnectionOnly, listDatabases);
 
 // Project management
-router.post('/', requireRole('editor'), validateCreateProject, createProject);
-router.get('/', validatePagination, getProjects);
+router.post('/', requirePermission('project.create'), requireQuota('projects'), validateCreateProject, createProject);
+router.get('/', validatePagination, validateProjectFilters, getProjects);
 router.get('/stats', getProjectStats);
+router.get('/facets', getProjectFacets);
 router.get('/:id', validateObjectId, getProjectById);
-router.patch('/:id', requireRole('editor'), validateUpdateProject, updateProject);
-router.delete('/:id', requireRole('admin'), validateObjectId, deleteProject);
-router.post('/:id/duplicate', requireRole('editor'), validateObjectId, duplicateProject);
+router.patch('/:id', requirePermission('project.update'), validateUpdateProject, updateProject);
+router.delete('/:id', requirePermission('project.delete'), validateObjectId, deleteProject);
+router.post('/:id/duplicate', requirePermission('project.create'), validateObjectId, requireQuota('projects'), duplicateProject);
+router.get('/:id/health', validateProjectHealth, getProjectHealth);
+
+// Archive and trash
+router.post('/:id/archive', requirePermission('project.update'), validateObjectId, archiveProject);
+router.post('/:id/restore', requirePermission('project.update'), validateObjectId, restoreProject);
+
+// Portable bundles
+router.post('/import', requirePermission('project.create'), requireFeature('export'), requireQuota('projects'), validateImportProject, importProject);
+router.get('/:id/export', requirePermission('project.export'), requireFeature('export'), validateExportProject, exportProject);
+
+// Team access
+router.get('/:id/access', requirePermission('project.manage_access'), validateObjectId, getProjectAccess);
+router.put('/:id/access', requirePermission('project.manage_access'), validateProjectAccess, updateProjectAccess);
 
 export default router;
\ No newline at end of file
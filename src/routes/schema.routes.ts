@@ -7,15 +7,19 @@ import {
   detectRelationships
 } from '../controllers/schema.controller';
 import { validateObjectId } from '../middleware/validation.middleware';
-import { authenticateUser, requireOrganization } from '../middleware/auth.middleware';
+import { authenticateUser, requireOrganization, requireVerifiedEmail, enforceTokenProjectScope, requireProjectAccess, requireActiveProject, requirePermission } from '../middleware/auth.middleware';
 
 const router = Router();
 
 router.use(authenticateUser);
 router.use(requireOrganization);
+router.use(requireVerifiedEmail);
+router.param('id', enforceTokenProjectScope);
+router.param('id', requireProjectAccess);
+router.param('id', requireActiveProject);
 
-router.post('/:id/extract', validateObjectId, extractSchema);
-router.post('/:id/refresh', validateObjectId, refreshSchema);
+router.post('/:id/extract', requirePermission('schema.refresh'), validateObjectId, extractSchema);
+router.post('/:id/refresh', requirePermission('schema.refresh'), validateObjectId, refreshSchema);
 router.get('/:id/collection/:name/sample', getCollectionSample);
 router.get('/:id/collection/:name/field/:field/distribution', getFieldDistribution);
 router.get('/:id/relationships', validateObjectId, detectRelationships);
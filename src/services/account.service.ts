@@ -0,0 +1,156 @@
+import { Organization } from '../models/Organization';
+import { User } from '../models/User';
+import { ChatHistory } from '../models/ChatHistory';
+import { Session } from '../models/Session';
+import { RefreshToken } from '../models/RefreshToken';
+import { ApiToken } from '../models/ApiToken';
+import { Team } from '../models/Team';
+import { ActivityEvent } from '../models/ActivityEvent';
+import { IUser } from '../types';
+import { OrganizationService } from './organization.service';
+import { ApiTokenService } from './api-token.service';
+import { MembershipService } from './membership.service';
+import { ValidationError } from '../utils/errors';
+import { createStructuredLogger } from '../utils/logger';
+
+const log = createStructuredLogger('AccountService');
+
+export interface OwnedOrganizationDecisions {
+  /** organizationId -> userId of the member who becomes the new owner */
+  transfers?: Record<string, string>;
+  /** organizations to delete along with the account */
+  deleteOrganizations?: string[];
+}
+
+/**
+ * Account Service
+ * Personal data export and account deletion
+ */
+export class AccountService {
+  private organizationService = new OrganizationService();
+  private apiTokenService = new ApiTokenService();
+  private membershipService = new MembershipService();
+
+  /**
+   * Collect everything stored about a user into one document
+   */
+  async buildExport(user: IUser) {
+    const userId = user._id.toString();
+
+    const [organizations, chatHistory, sessions, apiTokens] = await Promise.all([
+      Organization.find({ 'members.userId': userId }),
+      ChatHistory.find({ userId }).sort({ createdAt: 1 }),
+      Session.find({ userId }).sort({ createdAt: 1 }),
+      ApiToken.find({ userId, type: 'personal' }).sort({ createdAt: 1 })
+    ]);
+
+    return {
+      exportedAt: new Date(),
+      profile: {
+        id: user._id,
+        email: user.email,
+        name: user.name,
+        profileImage: user.profileImage,
+        emailVerified: user.emailVerified,
+        emailVerifiedAt: user.emailVerifiedAt,
+        twoFactorEnabled: user.twoFactor?.enabled || false,
+        ssoIdentities: user.ssoIdentities,
+        createdAt: user.createdAt,
+        lastLogin: user.lastLogin
+      },
+      organizations: organizations.map(org => {
+        const member = org.members.find(entry => entry.userId.toString() === userId);
+        return {
+          id: org._id,
+          name: org.name,
+          role: member?.role,
+          joinedAt: member?.joinedAt,
+          isOwner: org.owner.toString() === userId
+        };
+      }),
+      sessions: sessions.map(session => ({
+        deviceName: session.deviceName,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastActiveAt: session.lastActiveAt,
+        revokedAt: session.revokedAt
+      })),
+      apiTokens: apiTokens.map(token => this.apiTokenService.serialize(token)),
+      chatHistory: chatHistory.map(entry => ({
+        projectId: entry.projectId,
+        message: entry.message,
+        aiResponse: entry.aiResponse,
+        metadata: entry.metadata,
+        createdAt: entry.createdAt
+      }))
+    };
+  }
+
+  /**
+   * Delete a user. Every organization they own must either be handed to
+   * another member or deleted; nothing is changed unless all of them are
+   * accounted for.
+   */
+  async deleteAccount(user: IUser, decisions: OwnedOrganizationDecisions = {}): Promise<void> {
+    const userId = user._id.toString();
+    const transfers = decisions.transfers || {};
+    const toDelete = new Set(decisions.deleteOrganizations || []);
+
+    const owned = await Organization.find({ owner: userId });
+
+    const unresolved = owned.filter(org => {
+      const id = org._id.toString();
+      return !transfers[id] && !toDelete.has(id);
+    });
+    if (unresolved.length > 0) {
+      throw new ValidationError(
+        'Transfer or delete the organizations you own before deleting your account',
+        { organizations: unresolved.map(org => ({ id: org._id, name: org.name })) }
+      );
+    }
+
+    for (const org of owned) {
+      const newOwnerId = transfers[org._id.toString()];
+      if (!newOwnerId) continue;
+
+      if (newOwnerId === userId || !org.members.some(m => m.userId.toString() === newOwnerId)) {
+        throw new ValidationError(`New owner for ${org.name} must be another member of the organization`);
+      }
+    }
+
+    for (const org of owned) {
+      const id = org._id.toString();
+
+      if (toDelete.has(id) && !transfers[id]) {
+        await this.organizationService.purgeOrganization(id);
+        continue;
+      }
+
+      const newOwnerId = transfers[id];
+      org.owner = newOwnerId;
+      org.members.forEach(member => {
+        if (member.userId.toString() === newOwnerId) member.role = 'admin';
+      });
+      await org.save();
+      await this.membershipService.invalidate(id, newOwnerId);
+      log.info('Organization ownership transferred on account deletion', { organizationId: id, newOwnerId });
+    }
+
+    await Organization.updateMany(
+      { 'members.userId': userId },
+      { $pull: { members: { userId } } }
+    );
+    await Team.updateMany({ members: userId }, { $pull: { members: userId } });
+    // Organizations keep their history, but without the person's email
+    await ActivityEvent.updateMany({ 'actor.id': userId }, { $set: { 'actor.label': 'Deleted user' } });
+
+    await ChatHistory.deleteMany({ userId });
+    await ApiToken.deleteMany({ userId, type: 'personal' });
+    await RefreshToken.deleteMany({ userId });
+    await Session.deleteMany({ userId });
+    await User.deleteOne({ _id: userId });
+
+    log.info('Account deleted', { userId });
+  }
+}
@@ -0,0 +1,155 @@
+import { ActivityEvent } from '../models/ActivityEvent';
+import { ActivityChange, AuthRequest, IActivityEvent } from '../types';
+import { ValidationError } from '../utils/errors';
+import { CONSTANTS, REGEX_PATTERNS } from '../utils/constants';
+import { createStructuredLogger } from '../utils/logger';
+
+const log = createStructuredLogger('ActivityService');
+
+export interface ActivityTarget {
+  type: string;
+  id?: any;
+  name?: string;
+}
+
+export interface ActivityFilters {
+  actor?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * Activity Service
+ * Records who did what in an organization and serves the activity feed.
+ * Recording never fails the request that triggered it.
+ */
+export class ActivityService {
+  async record(
+    req: AuthRequest,
+    action: string,
+    target: ActivityTarget,
+    details: { changes?: ActivityChange[]; metadata?: Record<string, any>; organizationId?: string } = {}
+  ): Promise<void> {
+    const user = req.user;
+    const organizationId = details.organizationId || user?.organizationId;
+    if (!user || !organizationId) {
+      return;
+    }
+
+    try {
+      await ActivityEvent.create({
+        organizationId,
+        actor: {
+          type: user.apiToken?.type === 'service' ? 'service_account' : 'user',
+          id: user.userId,
+          label: user.email,
+          apiTokenId: user.apiToken?.id || null
+        },
+        action,
+        target: {
+          type: target.type,
+          id: target.id || null,
+          name: target.name
+        },
+        changes: details.changes || [],
+        metadata: details.metadata,
+        ipAddress: req.ip
+      });
+    } catch (error) {
+      log.error(`Failed to record activity ${action}`, error);
+    }
+  }
+
+  /**
+   * Summarize which fields differ between two snapshots. Secret fields are
+   * reported as changed without their values.
+   */
+  diff(before: Record<string, any>, after: Record<string, any>, secretFields: string[] = []): ActivityChange[] {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    const changes: ActivityChange[] = [];
+
+    for (const field of fields) {
+      if (after[field] === undefined || JSON.stringify(before[field]) === JSON.stringify(after[field])) {
+        continue;
+      }
+      changes.push(secretFields.includes(field)
+        ? { field }
+        : { field, from: before[field] ?? null, to: after[field] });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Newest events first. The cursor is opaque to clients and points just
+   * past the last event of the previous page.
+   */
+  async list(organizationId: string, filters: ActivityFilters) {
+    const limit = Math.min(filters.limit || CONSTANTS.ACTIVITY.DEFAULT_LIMIT, CONSTANTS.ACTIVITY.MAX_LIMIT);
+    const query: Record<string, any> = { organizationId };
+
+    if (filters.actor) {
+      query['actor.id'] = filters.actor;
+    }
+    if (filters.action) {
+      // "project.*" matches every project action
+      query.action = filters.action.endsWith('.*')
+        ? { $regex: `^${filters.action.slice(0, -1).replace(/\./g, '\\.')}` }
+        : filters.action;
+    }
+    if (filters.from || filters.to) {
+      query.createdAt = {
+        ...(filters.from && { $gte: filters.from }),
+        ...(filters.to && { $lte: filters.to })
+      };
+    }
+    if (filters.cursor) {
+      const { createdAt, id } = this.decodeCursor(filters.cursor);
+      query.$or = [
+        { createdAt: { $lt: createdAt } },
+        { createdAt, _id: { $lt: id } }
+      ];
+    }
+
+    const events = await ActivityEvent.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1);
+
+    const hasMore = events.length > limit;
+    const page = events.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      events: page.map(event => this.serialize(event)),
+      nextCursor: hasMore && last ? this.encodeCursor(last) : null
+    };
+  }
+
+  serialize(event: IActivityEvent) {
+    return {
+      id: event._id,
+      actor: event.actor,
+      action: event.action,
+      target: event.target,
+      changes: event.changes,
+      metadata: event.metadata,
+      ipAddress: event.ipAddress,
+      createdAt: event.createdAt
+    };
+  }
+
+  private encodeCursor(event: IActivityEvent): string {
+    return Buffer.from(`${event.createdAt.getTime()}:${event._id}`).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): { createdAt: Date; id: string } {
+    const [time, id] = Buffer.from(cursor, 'base64url').toString().split(':');
+    if (!time || !REGEX_PATTERNS.OBJECT_ID.test(id || '') || isNaN(Number(time))) {
+      throw new ValidationError('Invalid cursor');
+    }
+    return { createdAt: new Date(Number(time)), id };
+  }
+}
@@ -6,11 +6,15 @@ import { QueryGeneratorService } from './query-generator.service';
 type ChatCompletionMessageParam = any;
 import { MongoDBService } from './mongodb.service';
 import { DataFormatterService } from './data-formatter.service';
+import { UsageService, UsageContext, TokenUsage } from './usage.service';
+import { BudgetService } from './budget.service';
+import { MongoConnectionOptions } from '../types';
 
 export interface AIResponse {
   content: string;
   model: string;
   tokens: number;
+  usage: TokenUsage;
   queryType?: string;
   collections?: string[];
   suggestions?: string[];
@@ -23,18 +27,26 @@ export class AIService {
   private model: string = 'openai/gpt-oss-20b';
   private queryGenerator: QueryGeneratorService;
   private dataFormatter: DataFormatterService;
+  private usageService: UsageService;
+  private budgetService: BudgetService;
 
-  constructor(apiKey: string) {
+  /**
+   * Calls are recorded against usageContext when one is given
+   */
+  constructor(apiKey: string, private usageContext?: UsageContext) {
     this.groq = new Groq({ apiKey });
     this.queryGenerator = new QueryGeneratorService();
     this.dataFormatter = new DataFormatterService();
+    this.usageService = new UsageService();
+    this.budgetService = new BudgetService();
   }
 
   async generateResponse(
     message: string,
     schemaCache: any,
     chatHistory: any[],
-    mongoUri?: string
+    mongoUri?: string,
+    connectionOptions: MongoConnectionOptions = {}
   ): Promise<AIResponse> {
     try {
       // Step 1: Parse user intent
@@ -61,7 +73,8 @@ export class AIService {
             // Step 3: Execute the query
             queryResult = await this.executeQuery(
               mongoUri,
-              schemaCache.databaseName || 'dataverse',
+              connectionOptions,
+              generatedQuery.database || schemaCache.databaseName || 'dataverse',
               generatedQuery
             );
             queryExecuted = true;
@@ -115,7 +128,8 @@ export class AIService {
       });
 
       const response = completion.choices[0]?.message?.content || '';
-      const tokens = completion.usage?.total_tokens || 0;
+      const usage = this.resolveUsage(completion.usage, messages, response);
+      await this.recordUsage('chat', usage);
 
       // Analyze response for metadata
       const queryType = this.detectQueryType(message);
@@ -125,7 +139,8 @@ export class AIService {
       return {
         content: response,
         model: this.model,
-        tokens,
+        tokens: usage.totalTokens,
+        usage,
         queryType,
         collections,
         suggestions,
@@ -159,20 +174,28 @@ export class AIService {
       });
 
       let fullContent = '';
-      let tokenCount = 0;
+      let reportedUsage: Groq.Chat.ChatCompletion.Usage | undefined;
 
       for await (const chunk of stream) {
         const content = chunk.choices[0]?.delta?.content || '';
         if (content) {
           fullContent += content;
-          tokenCount++;
           onChunk(content);
         }
+        // Groq reports usage on the final chunk
+        if (chunk.x_groq?.usage) {
+          reportedUsage = chunk.x_groq.usage;
+        }
       }
 
+      const usage = this.resolveUsage(reportedUsage, messages, fullContent);
+      await this.recordUsage('chat_stream', usage);
+
       const metadata = {
         model: this.model,
-        tokens: tokenCount,
+        tokens: usage.totalTokens,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
         queryType: this.detectQueryType(message),
         collections: this.extractCollections(message, schemaCache)
       };
@@ -188,16 +211,16 @@ export class AIService {
     context: string,
     schemaCache: any
   ): Promise<string[]> {
-    const collections = schemaCache?.collections || [];
+    const collections = this.queryGenerator.listCollections(schemaCache);
     const suggestions: string[] = [];
 
     // Collection-specific suggestions
     if (collections.length > 0) {
-      suggestions.push(`How many documents are in ${collections[0].name}?`);
-      suggestions.push(`Show me the structure of ${collections[0].name}`);
+      suggestions.push(`How many documents are in ${collections[0].label}?`);
+      suggestions.push(`Show me the structure of ${collections[0].label}`);
       
       if (collections.length > 1) {
-        suggestions.push(`What's the relationship between ${collections[0].name} and ${collections[1].name}?`);
+        suggestions.push(`What's the relationship between ${collections[0].label} and ${collections[1].label}?`);
       }
     }
 
@@ -216,20 +239,61 @@ export class AIService {
     return suggestions.slice(0, 5);
   }
 
+  /**
+   * Token counts as reported by the provider, or estimated from the text
+   * when it reports none
+   */
+  private resolveUsage(
+    reported: Groq.Chat.ChatCompletion.Usage | undefined,
+    messages: ChatCompletionMessageParam[],
+    completion: string
+  ): TokenUsage {
+    if (reported?.prompt_tokens !== undefined && reported.completion_tokens !== undefined) {
+      return {
+        promptTokens: reported.prompt_tokens,
+        completionTokens: reported.completion_tokens,
+        totalTokens: reported.total_tokens ?? reported.prompt_tokens + reported.completion_tokens,
+        estimated: false
+      };
+    }
+
+    const promptTokens = this.usageService.estimateTokens(
+      messages.map((entry: any) => entry.content || '').join('\n')
+    );
+    const completionTokens = this.usageService.estimateTokens(completion);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+  }
+
+  private async recordUsage(operation: string, usage: TokenUsage): Promise<void> {
+    if (this.usageContext) {
+      await this.usageService.record(this.usageContext, this.model, operation, usage);
+      // Warnings may send mail, so they do not hold up the response
+      this.budgetService.checkThresholds(this.usageContext);
+    }
+  }
+
   private buildSystemPrompt(schemaCache: any): string {
-    const collections = schemaCache?.collections || [];
+    const collections = this.queryGenerator.listCollections(schemaCache);
     const relationships = schemaCache?.relationships || [];
+    const namespaced = collections.some(col => col.label !== col.name);
 
     let prompt = `You are Dataverse AI, an expert MongoDB database assistant. You help users understand and query their database.
 
 DATABASE SCHEMA:
 `;
 
+    // Collections from several databases are named database.collection
+    if (namespaced) {
+      const databases = Array.from(new Set(collections.map(col => col.database)));
+      prompt += `\nDATABASES: ${databases.join(', ')}\n`;
+      prompt += 'Collections are named database.collection. Always say which database a query runs against.\n';
+    }
+
     // Add collections
     if (collections.length > 0) {
       prompt += '\nCOLLECTIONS:\n';
-      collections.forEach((col: any) => {
-        prompt += `\n${col.name} (${col.documentCount} documents):\n`;
+      collections.forEach(({ label, schema: col }) => {
+        prompt += `\n${label} (${col.documentCount} documents):\n`;
         const fields = col.fields?.slice(0, 10) || [];
         fields.forEach((field: any) => {
           prompt += `  - ${field.name}: ${field.type}${field.required ? ' (required)' : ''}\n`;
@@ -244,7 +308,8 @@ DATABASE SCHEMA:
     if (relationships.length > 0) {
       prompt += '\nRELATIONSHIPS:\n';
       relationships.forEach((rel: any) => {
-        prompt += `- ${rel.from} -> ${rel.to} (${rel.type}) via ${rel.field}\n`;
+        const prefix = namespaced && rel.database ? `${rel.database}.` : '';
+        prompt += `- ${prefix}${rel.from} -> ${prefix}${rel.to} (${rel.type}) via ${rel.field}\n`;
       });
     }
 
@@ -339,22 +404,12 @@ Remember: You can only perform READ operations. Never suggest write, update, or
   }
 
   private extractCollections(message: string, schemaCache: any): string[] {
-    const collections = schemaCache?.collections || [];
-    const mentioned: string[] = [];
-    const lowerMessage = message.toLowerCase();
-
-    collections.forEach((col: any) => {
-      if (lowerMessage.includes(col.name.toLowerCase())) {
-        mentioned.push(col.name);
-      }
-    });
-
-    return mentioned;
+    return this.queryGenerator.parseIntent(message, schemaCache).collections || [];
   }
 
   private generateFollowUpSuggestions(response: string, schemaCache: any): string[] {
     const suggestions: string[] = [];
-    const collections = schemaCache?.collections || [];
+    const collections = this.queryGenerator.listCollections(schemaCache);
 
     // Based on response content
     if (response.includes('documents')) {
@@ -369,7 +424,7 @@ Remember: You can only perform READ operations. Never suggest write, update, or
 
     if (collections.length > 0) {
       const randomCollection = collections[Math.floor(Math.random() * collections.length)];
-      suggestions.push(`Tell me about ${randomCollection.name}`);
+      suggestions.push(`Tell me about ${randomCollection.label}`);
     }
 
     return suggestions.slice(0, 3);
@@ -380,10 +435,11 @@ Remember: You can only perform READ operations. Never suggest write, update, or
    */
   private async executeQuery(
     mongoUri: string,
+    connectionOptions: MongoConnectionOptions,
     databaseName: string,
     generatedQuery: any
   ): Promise<any> {
-    const mongoService = new MongoDBService(mongoUri);
+    const mongoService = new MongoDBService(mongoUri, connectionOptions);
 
     try {
       await mongoService.connect();
@@ -0,0 +1,213 @@
+import CryptoJS from 'crypto-js';
+import { ApiToken } from '../models/ApiToken';
+import { ServiceAccount } from '../models/ServiceAccount';
+import { User } from '../models/User';
+import { Project } from '../models/Project';
+import { IApiToken, IServiceAccount, MemberRole } from '../types';
+import { AuthenticationError, ValidationError } from '../utils/errors';
+import { CONSTANTS } from '../utils/constants';
+
+export interface ApiTokenOptions {
+  name: string;
+  role: MemberRole;
+  projectIds?: string[];
+  expiresInDays?: number;
+}
+
+export interface IssuedApiToken {
+  token: string;
+  record: IApiToken;
+}
+
+export interface ApiTokenPrincipal {
+  userId: string;
+  email: string;
+  organizationId: string;
+  apiToken: {
+    id: string;
+    type: 'personal' | 'service';
+    role: MemberRole;
+    projectIds: string[];
+    serviceAccountId?: string;
+  };
+}
+
+/**
+ * ApiToken Service
+ * Long-lived credentials for scripts: personal access tokens act on behalf of a
+ * user, service account tokens on behalf of an organization. Only a hash of the
+ * token is stored; the plain value is returned once at creation.
+ */
+export class ApiTokenService {
+  isApiToken(token: string): boolean {
+    return token.startsWith(CONSTANTS.API_TOKENS.PERSONAL_PREFIX) ||
+      token.startsWith(CONSTANTS.API_TOKENS.SERVICE_PREFIX);
+  }
+
+  async createPersonalToken(
+    userId: string,
+    organizationId: string,
+    options: ApiTokenOptions
+  ): Promise<IssuedApiToken> {
+    const token = this.generateToken(CONSTANTS.API_TOKENS.PERSONAL_PREFIX);
+
+    const record = await ApiToken.create({
+      name: options.name,
+      type: 'personal',
+      tokenHash: this.hashToken(token),
+      tokenPrefix: token.slice(0, CONSTANTS.API_TOKENS.PERSONAL_PREFIX.length + 6),
+      organizationId,
+      userId,
+      role: options.role,
+      projectIds: options.projectIds || [],
+      expiresAt: this.computeExpiry(options.expiresInDays),
+      createdBy: userId
+    });
+
+    return { token, record };
+  }
+
+  async createServiceAccountToken(
+    serviceAccount: IServiceAccount,
+    createdBy: string,
+    options: ApiTokenOptions
+  ): Promise<IssuedApiToken> {
+    const token = this.generateToken(CONSTANTS.API_TOKENS.SERVICE_PREFIX);
+
+    const record = await ApiToken.create({
+      name: options.name,
+      type: 'service',
+      tokenHash: this.hashToken(token),
+      tokenPrefix: token.slice(0, CONSTANTS.API_TOKENS.SERVICE_PREFIX.length + 6),
+      organizationId: serviceAccount.organizationId,
+      serviceAccountId: serviceAccount._id,
+      role: options.role,
+      projectIds: options.projectIds || [],
+      expiresAt: this.computeExpiry(options.expiresInDays),
+      createdBy
+    });
+
+    return { token, record };
+  }
+
+  /**
+   * Resolve a presented token to the principal it acts as, recording its use
+   */
+  async authenticate(token: string, ipAddress?: string): Promise<ApiTokenPrincipal> {
+    const record = await ApiToken.findOne({ tokenHash: this.hashToken(token) });
+    if (!record) {
+      throw new AuthenticationError('Invalid API token');
+    }
+
+    if (record.revokedAt) {
+      throw new AuthenticationError('API token has been revoked');
+    }
+
+    if (record.expiresAt <= new Date()) {
+      throw new AuthenticationError('API token expired');
+    }
+
+    let userId: string;
+    let email: string;
+
+    if (record.type === 'service') {
+      const serviceAccount = await ServiceAccount.findById(record.serviceAccountId);
+      if (!serviceAccount || serviceAccount.disabledAt) {
+        throw new AuthenticationError('Service account is disabled');
+      }
+      userId = serviceAccount._id.toString();
+      email = `${serviceAccount.name} (service account)`;
+    } else {
+      const user = await User.findById(record.userId).select('_id email');
+      if (!user) {
+        throw new AuthenticationError('User no longer exists');
+      }
+      userId = user._id.toString();
+      email = user.email;
+    }
+
+    await ApiToken.updateOne(
+      { _id: record._id },
+      { $set: { lastUsedAt: new Date(), lastUsedIp: ipAddress || null } }
+    );
+
+    return {
+      userId,
+      email,
+      organizationId: record.organizationId.toString(),
+      apiToken: {
+        id: record._id.toString(),
+        type: record.type,
+        role: record.role,
+        projectIds: record.projectIds.map(id => id.toString()),
+        serviceAccountId: record.serviceAccountId?.toString()
+      }
+    };
+  }
+
+  /**
+   * Ensure every project a token is scoped to belongs to its organization
+   */
+  async validateProjectScope(organizationId: string, projectIds: string[] = []): Promise<void> {
+    if (projectIds.length === 0) return;
+
+    const uniqueIds = Array.from(new Set(projectIds));
+    const found = await Project.countDocuments({
+      _id: { $in: uniqueIds },
+      organizationId
+    });
+
+    if (found !== uniqueIds.length) {
+      throw new ValidationError('Token can only be scoped to projects in this organization');
+    }
+  }
+
+  async revokeToken(tokenId: string): Promise<void> {
+    await ApiToken.updateOne(
+      { _id: tokenId, revokedAt: null },
+      { $set: { revokedAt: new Date() } }
+    );
+  }
+
+  async revokeServiceAccountTokens(serviceAccountId: string): Promise<void> {
+    await ApiToken.updateMany(
+      { serviceAccountId, revokedAt: null },
+      { $set: { revokedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Public view of a token record; never includes the hash
+   */
+  serialize(record: IApiToken) {
+    return {
+      id: record._id,
+      name: record.name,
+      type: record.type,
+      tokenPrefix: record.tokenPrefix,
+      organizationId: record.organizationId,
+      serviceAccountId: record.serviceAccountId || undefined,
+      role: record.role,
+      projectIds: record.projectIds,
+      expiresAt: record.expiresAt,
+      lastUsedAt: record.lastUsedAt,
+      lastUsedIp: record.lastUsedIp,
+      revokedAt: record.revokedAt,
+      createdAt: record.createdAt,
+      isActive: record.isActive()
+    };
+  }
+
+  private computeExpiry(expiresInDays?: number): Date {
+    const days = expiresInDays || CONSTANTS.API_TOKENS.DEFAULT_EXPIRY_DAYS;
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+
+  private generateToken(prefix: string): string {
+    return `${prefix}${CryptoJS.lib.WordArray.random(24).toString()}`;
+  }
+
+  private hashToken(token: string): string {
+    return CryptoJS.SHA256(token).toString();
+  }
+}
@@ -0,0 +1,197 @@
+import { Organization } from '../models/Organization';
+import { User } from '../models/User';
+import { AiBudgetSettings, IOrganization } from '../types';
+import { UsageContext, UsageService } from './usage.service';
+import { MailService } from './mail.service';
+import { QuotaExceededError } from '../utils/errors';
+import { CONSTANTS } from '../utils/constants';
+import { createStructuredLogger } from '../utils/logger';
+
+const log = createStructuredLogger('BudgetService');
+
+export type BudgetScope = 'organization' | 'member';
+export type BudgetMetric = 'tokens' | 'cost';
+
+export interface BudgetStatus {
+  scope: BudgetScope;
+  metric: BudgetMetric;
+  limit: number;
+  used: number;
+  percent: number;
+}
+
+/**
+ * Budget Service
+ * Monthly AI token and cost caps for an organization and each of its members
+ */
+export class BudgetService {
+  private usageService = new UsageService();
+
+  getSettings(organization: IOrganization): Required<AiBudgetSettings> {
+    const budget = organization.settings?.aiBudget;
+
+    return {
+      monthlyTokens: budget?.monthlyTokens ?? null,
+      monthlyCost: budget?.monthlyCost ?? null,
+      memberMonthlyTokens: budget?.memberMonthlyTokens ?? null,
+      memberMonthlyCost: budget?.memberMonthlyCost ?? null,
+      warningThresholds: budget?.warningThresholds?.length
+        ? budget.warningThresholds
+        : CONSTANTS.AI_BUDGET.DEFAULT_WARNING_THRESHOLDS
+    };
+  }
+
+  /**
+   * Spend against every configured budget this month. Member budgets are
+   * only included when a member is given.
+   */
+  async getStatus(organization: IOrganization, userId?: string): Promise<BudgetStatus[]> {
+    const settings = this.getSettings(organization);
+    const organizationId = organization._id.toString();
+    const since = this.startOfMonth();
+
+    const hasOrganizationBudget = settings.monthlyTokens !== null || settings.monthlyCost !== null;
+    const hasMemberBudget = !!userId && (settings.memberMonthlyTokens !== null || settings.memberMonthlyCost !== null);
+
+    const [organizationTotals, memberTotals] = await Promise.all([
+      hasOrganizationBudget ? this.usageService.totals(organizationId, since) : null,
+      hasMemberBudget ? this.usageService.totals(organizationId, since, userId) : null
+    ]);
+
+    const statuses: BudgetStatus[] = [];
+    const add = (scope: BudgetScope, metric: BudgetMetric, limit: number | null, used: number) => {
+      if (limit !== null) {
+        statuses.push({ scope, metric, limit, used, percent: Math.floor((used / limit) * 100) });
+      }
+    };
+
+    if (organizationTotals) {
+      add('organization', 'tokens', settings.monthlyTokens, organizationTotals.totalTokens);
+      add('organization', 'cost', settings.monthlyCost, organizationTotals.estimatedCost);
+    }
+    if (memberTotals) {
+      add('member', 'tokens', settings.memberMonthlyTokens, memberTotals.totalTokens);
+      add('member', 'cost', settings.memberMonthlyCost, memberTotals.estimatedCost);
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Throw once the organization or the member has spent a monthly budget
+   */
+  async assertWithinBudget(organization: IOrganization, userId: string): Promise<void> {
+    const exceeded = (await this.getStatus(organization, userId)).find(status => status.used >= status.limit);
+    if (!exceeded) {
+      return;
+    }
+
+    const plan = organization.settings?.plan || CONSTANTS.DEFAULT_PLAN;
+    throw new QuotaExceededError(`${this.describe(exceeded)} has been reached`, {
+      quota: 'aiBudget',
+      scope: exceeded.scope,
+      metric: exceeded.metric,
+      limit: exceeded.limit,
+      used: exceeded.used,
+      plan
+    });
+  }
+
+  /**
+   * Warn by email when a call pushes spend past a warning threshold. Each
+   * threshold is reported once per month; only the highest one crossed is
+   * sent when several are crossed at once.
+   */
+  async checkThresholds(context: UsageContext): Promise<void> {
+    try {
+      const organization = await Organization.findById(context.organizationId);
+      if (!organization) {
+        return;
+      }
+
+      const thresholds = Array.from(new Set([...this.getSettings(organization).warningThresholds, 100]))
+        .sort((a, b) => b - a);
+
+      for (const status of await this.getStatus(organization, context.userId)) {
+        const threshold = thresholds.find(value => status.percent >= value);
+        if (threshold === undefined) {
+          continue;
+        }
+
+        const subject = status.scope === 'member' ? context.userId : 'organization';
+        const claimed = await this.claimAlert(organization._id.toString(), `${subject}:${status.metric}:${threshold}`);
+        if (claimed) {
+          await this.notify(organization, status, threshold, context.userId);
+        }
+      }
+    } catch (error) {
+      log.error(`Failed to check AI budget for organization ${context.organizationId}`, error);
+    }
+  }
+
+  describe(
+    status: Pick<BudgetStatus, 'scope' | 'metric' | 'limit'>,
+    owner = status.scope === 'organization' ? "The organization's" : 'Your'
+  ): string {
+    const amount = status.metric === 'cost'
+      ? `$${status.limit.toFixed(2)}`
+      : `${status.limit.toLocaleString('en-US')} tokens`;
+    return `${owner} monthly AI budget of ${amount}`;
+  }
+
+  /**
+   * Mark an alert as sent for this month. Returns false when another
+   * request already sent it.
+   */
+  private async claimAlert(organizationId: string, key: string): Promise<boolean> {
+    const period = this.startOfMonth().toISOString().slice(0, 7);
+
+    const reset = await Organization.updateOne(
+      { _id: organizationId, 'budgetAlerts.period': { $ne: period } },
+      { $set: { budgetAlerts: { period, sent: [key] } } }
+    );
+    if (reset.modifiedCount > 0) {
+      return true;
+    }
+
+    const added = await Organization.updateOne(
+      { _id: organizationId, 'budgetAlerts.period': period, 'budgetAlerts.sent': { $ne: key } },
+      { $push: { 'budgetAlerts.sent': key } }
+    );
+    return added.modifiedCount > 0;
+  }
+
+  /**
+   * Organization budgets go to the admins; member budgets go to the member,
+   * or to the admins when the member is a service account
+   */
+  private async notify(organization: IOrganization, status: BudgetStatus, percent: number, userId?: string): Promise<void> {
+    const member = status.scope === 'member' ? await User.findById(userId).select('name email') : null;
+    const recipients = member
+      ? [member]
+      : await User.find({
+        _id: { $in: organization.members.filter(m => m.role === 'admin').map(m => m.userId) }
+      }).select('name email');
+
+    const owner = status.scope === 'organization'
+      ? `${organization.name}'s`
+      : member ? 'Your' : "A service account's";
+    const budget = this.describe(status, owner);
+
+    const mailService = new MailService();
+    for (const recipient of recipients) {
+      await mailService.sendAiBudgetWarning(recipient.email, recipient.name, organization.name, budget, percent);
+    }
+
+    log.info(`AI budget warning sent for organization ${organization._id}`, {
+      scope: status.scope,
+      metric: status.metric,
+      percent
+    });
+  }
+
+  private startOfMonth(): Date {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+}
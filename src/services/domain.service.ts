@@ -0,0 +1,198 @@
+import { promises as dns } from 'dns';
+import CryptoJS from 'crypto-js';
+import { Organization } from '../models/Organization';
+import { IOrganization, IUser } from '../types';
+import { EntitlementService } from './entitlement.service';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { CONSTANTS } from '../utils/constants';
+import { createStructuredLogger } from '../utils/logger';
+
+const log = createStructuredLogger('DomainService');
+
+/**
+ * Domain Service
+ * Email domain rules for organizations. allowedDomains restricts who can be
+ * invited; a domain proven through DNS additionally lets users with a
+ * verified email on it join automatically.
+ */
+export class DomainService {
+  private entitlementService = new EntitlementService();
+
+  emailDomain(email: string): string {
+    return email.split('@').pop()!.toLowerCase();
+  }
+
+  /**
+   * An empty allow-list means any domain may be invited
+   */
+  isEmailAllowed(organization: IOrganization, email: string): boolean {
+    const allowed = organization.settings?.allowedDomains || [];
+    return allowed.length === 0 || allowed.includes(this.emailDomain(email));
+  }
+
+  /**
+   * Whether the organization has proven control of the email's domain
+   */
+  isVerifiedDomain(organization: IOrganization, email: string): boolean {
+    const domain = this.emailDomain(email);
+    return (organization.settings?.verifiedDomains || [])
+      .some(entry => entry.domain === domain && entry.verifiedAt);
+  }
+
+  /**
+   * The DNS record an admin has to publish to prove control of a domain
+   */
+  verificationRecord(domain: string, token: string) {
+    return {
+      type: 'TXT',
+      name: `${CONSTANTS.DOMAIN_VERIFICATION.RECORD_PREFIX}.${domain}`,
+      value: `${CONSTANTS.DOMAIN_VERIFICATION.VALUE_PREFIX}${token}`
+    };
+  }
+
+  /**
+   * Start verifying a domain. This does not touch allowedDomains, which
+   * stays the invite allow-list set through the organization settings.
+   */
+  async addDomain(organization: IOrganization, domain: string): Promise<void> {
+    const settings = organization.settings;
+    const verifiedDomains = settings.verifiedDomains || [];
+
+    if (verifiedDomains.some(entry => entry.domain === domain)) {
+      throw new ConflictError('Domain has already been added');
+    }
+
+    verifiedDomains.push({
+      domain,
+      verificationToken: CryptoJS.lib.WordArray.random(16).toString(),
+      createdAt: new Date()
+    });
+    settings.verifiedDomains = verifiedDomains;
+
+    organization.markModified('settings');
+    await organization.save();
+  }
+
+  /**
+   * Look up the TXT record and mark the domain verified when it matches.
+   * A domain can only be verified by one organization at a time.
+   */
+  async verifyDomain(organization: IOrganization, domain: string): Promise<boolean> {
+    const entry = organization.settings.verifiedDomains?.find(item => item.domain === domain);
+    if (!entry) {
+      throw new NotFoundError('Domain');
+    }
+
+    if (entry.verifiedAt) {
+      return true;
+    }
+
+    const claimed = await Organization.exists({
+      _id: { $ne: organization._id },
+      'settings.verifiedDomains': { $elemMatch: { domain, verifiedAt: { $ne: null } } }
+    });
+    if (claimed) {
+      throw new ConflictError('Domain is already verified by another organization');
+    }
+
+    const record = this.verificationRecord(domain, entry.verificationToken);
+    let values: string[] = [];
+    try {
+      const records = await dns.resolveTxt(record.name);
+      values = records.map(chunks => chunks.join(''));
+    } catch (error) {
+      log.debug(`TXT lookup failed for ${record.name}`, error);
+    }
+
+    if (!values.includes(record.value)) {
+      return false;
+    }
+
+    entry.verifiedAt = new Date();
+    organization.markModified('settings');
+    await organization.save();
+
+    log.info('Domain verified', { organizationId: organization._id.toString(), domain });
+
+    return true;
+  }
+
+  async removeDomain(organization: IOrganization, domain: string): Promise<void> {
+    const settings = organization.settings;
+    const verifiedDomains = settings.verifiedDomains || [];
+
+    if (!verifiedDomains.some(item => item.domain === domain)) {
+      throw new NotFoundError('Domain');
+    }
+
+    settings.verifiedDomains = verifiedDomains.filter(item => item.domain !== domain);
+
+    // Auto-join without a verified domain would never match anyone
+    if (settings.autoJoin?.enabled && !settings.verifiedDomains.some(item => item.verifiedAt)) {
+      settings.autoJoin.enabled = false;
+    }
+
+    organization.markModified('settings');
+    await organization.save();
+  }
+
+  /**
+   * Add a user with a freshly verified email to every organization that
+   * verified its domain and has auto-join switched on. Organizations
+   * without a free member seat are skipped.
+   */
+  async autoJoin(user: IUser): Promise<IOrganization[]> {
+    if (!user.emailVerified) {
+      return [];
+    }
+
+    const domain = this.emailDomain(user.email);
+    const userId = user._id.toString();
+
+    const organizations = await Organization.find({
+      'settings.autoJoin.enabled': true,
+      'settings.verifiedDomains': { $elemMatch: { domain, verifiedAt: { $ne: null } } },
+      'members.userId': { $ne: userId },
+      'deletion.scheduledFor': null
+    });
+
+    const joined: IOrganization[] = [];
+
+    for (const organization of organizations) {
+      if (!(await this.entitlementService.hasCapacity(organization, 'members'))) {
+        log.warn('Auto-join skipped, member limit reached', {
+          userId,
+          organizationId: organization._id.toString()
+        });
+        continue;
+      }
+
+      organization.members.push({
+        userId,
+        role: organization.settings.autoJoin!.defaultRole,
+        joinedAt: new Date()
+      });
+      await organization.save();
+
+      const organizationId = organization._id.toString();
+      if (!user.organizations.some(id => id.toString() === organizationId)) {
+        user.organizations.push(organizationId);
+      }
+
+      log.info('User auto-joined organization by domain', { userId, organizationId, domain });
+      joined.push(organization);
+    }
+
+    if (joined.length > 0) {
+      await user.save();
+    }
+
+    return joined;
+  }
+
+  assertAutoJoinAllowed(organization: IOrganization): void {
+    if (!organization.settings.verifiedDomains?.some(entry => entry.verifiedAt)) {
+      throw new ValidationError('Verify at least one domain before enabling auto-join');
+    }
+  }
+}
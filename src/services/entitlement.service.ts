@@ -0,0 +1,136 @@
+import { Project } from '../models/Project';
+import { Invitation } from '../models/Invitation';
+import { FeatureName, IOrganization, QuotaName } from '../types';
+import { UsageService } from './usage.service';
+import { projectStateFilter } from './project-access.service';
+import { QuotaExceededError } from '../utils/errors';
+import { CONSTANTS } from '../utils/constants';
+
+export interface Entitlements {
+  plan: string;
+  limits: Record<QuotaName, number | null>;
+  features: string[];
+}
+
+const QUOTA_LABELS: Record<QuotaName, string> = {
+  projects: 'project',
+  members: 'member',
+  aiMessages: 'monthly AI message'
+};
+
+/**
+ * Entitlement Service
+ * Resolves what an organization's plan allows and how much of it is used
+ */
+export class EntitlementService {
+  private usageService = new UsageService();
+
+  getEntitlements(organization: IOrganization): Entitlements {
+    const settings = organization.settings || {};
+    const plan = settings.plan || CONSTANTS.DEFAULT_PLAN;
+    const definition = CONSTANTS.PLANS[plan] || CONSTANTS.PLANS[CONSTANTS.DEFAULT_PLAN];
+
+    return {
+      plan,
+      limits: {
+        projects: settings.maxProjects ?? definition.maxProjects,
+        members: definition.maxMembers,
+        aiMessages: definition.monthlyAiMessages
+      },
+      features: Array.from(new Set([...definition.features, ...(settings.features || [])]))
+    };
+  }
+
+  async getUsage(organization: IOrganization, quota: QuotaName): Promise<number> {
+    const organizationId = organization._id;
+
+    switch (quota) {
+      case 'projects':
+        // Archived and deleted projects free their slot until restored
+        return Project.countDocuments({ organizationId, ...projectStateFilter('active') });
+      case 'members': {
+        // Pending invitations hold a seat so a plan cannot be overfilled by invites
+        const pending = await Invitation.countDocuments({
+          organizationId,
+          status: 'pending',
+          expiresAt: { $gt: new Date() }
+        });
+        return organization.members.length + pending;
+      }
+      case 'aiMessages':
+        // Counted from usage records, which clearing chat history does not remove
+        return this.usageService.countRequests(organizationId.toString(), this.startOfMonth());
+    }
+  }
+
+  /**
+   * Throw unless the organization has room for `amount` more of a quota
+   */
+  async assertQuota(organization: IOrganization, quota: QuotaName, amount = 1): Promise<void> {
+    const { plan, limits } = this.getEntitlements(organization);
+    const limit = limits[quota];
+    if (limit === null) {
+      return;
+    }
+
+    const used = await this.getUsage(organization, quota);
+    if (used + amount > limit) {
+      throw new QuotaExceededError(
+        `The ${plan} plan allows ${limit} ${QUOTA_LABELS[quota]}${limit === 1 ? '' : 's'}`,
+        { quota, limit, used, plan }
+      );
+    }
+  }
+
+  async hasCapacity(organization: IOrganization, quota: QuotaName): Promise<boolean> {
+    try {
+      await this.assertQuota(organization, quota);
+      return true;
+    } catch (error) {
+      if (error instanceof QuotaExceededError) return false;
+      throw error;
+    }
+  }
+
+  hasFeature(organization: IOrganization, feature: FeatureName): boolean {
+    return this.getEntitlements(organization).features.includes(feature);
+  }
+
+  assertFeature(organization: IOrganization, feature: FeatureName): void {
+    if (!this.hasFeature(organization, feature)) {
+      const { plan } = this.getEntitlements(organization);
+      throw new QuotaExceededError(`${feature} is not included in the ${plan} plan`, { feature, plan });
+    }
+  }
+
+  /**
+   * Limits, usage and features for the usage endpoint
+   */
+  async getSummary(organization: IOrganization) {
+    const { plan, limits, features } = this.getEntitlements(organization);
+    const quotas = ['projects', 'members', 'aiMessages'] as QuotaName[];
+    const usage = await Promise.all(quotas.map(quota => this.getUsage(organization, quota)));
+
+    return {
+      plan,
+      features,
+      period: {
+        start: this.startOfMonth(),
+        end: this.startOfMonth(1)
+      },
+      quotas: Object.fromEntries(quotas.map((quota, i) => [quota, {
+        used: usage[i],
+        limit: limits[quota],
+        remaining: limits[quota] === null ? null : Math.max(limits[quota]! - usage[i], 0)
+      }]))
+    };
+  }
+
+  /**
+   * AI message quotas reset at the start of each calendar month (UTC)
+   */
+  private startOfMonth(offset = 0): Date {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset, 1));
+  }
+}
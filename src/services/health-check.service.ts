@@ -0,0 +1,170 @@
+import mongoose from 'mongoose';
+import { Project } from '../models/Project';
+import { ProjectHealthCheck } from '../models/ProjectHealthCheck';
+import { HealthStatus, IProject } from '../types';
+import { MongoDBService } from './mongodb.service';
+import { projectStateFilter } from './project-access.service';
+import { CONSTANTS } from '../utils/constants';
+import { createStructuredLogger } from '../utils/logger';
+
+const log = createStructuredLogger('HealthCheckService');
+
+/**
+ * Health Check Service
+ * Pings project clusters on a schedule and reports uptime from the results
+ */
+export class HealthCheckService {
+  /**
+   * Ping one project's cluster and store the outcome. An unreachable
+   * cluster is a result, not an error.
+   */
+  async checkProject(project: IProject): Promise<HealthStatus> {
+    let status: HealthStatus = 'up';
+    let latencyMs: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const mongoService = new MongoDBService(project.getDecryptedUri(), project.getConnectionOptions());
+      latencyMs = await mongoService.ping();
+    } catch (pingError: any) {
+      status = 'down';
+      error = pingError.message || 'Ping failed';
+    }
+
+    const checkedAt = new Date();
+    const previous = project.health;
+
+    await ProjectHealthCheck.create({
+      projectId: project._id,
+      organizationId: project.organizationId,
+      status,
+      latencyMs,
+      error,
+      checkedAt
+    });
+
+    // Written directly so a check does not count as an edit to the project
+    await Project.updateOne({ _id: project._id }, {
+      $set: {
+        health: {
+          status,
+          checkedAt,
+          since: previous?.status === status ? previous.since : checkedAt,
+          latencyMs,
+          error
+        }
+      }
+    });
+
+    if (previous && previous.status !== status) {
+      log.warn(`Project ${project._id} is now ${status}`, { error });
+    }
+
+    return status;
+  }
+
+  /**
+   * Ping every active project, a few at a time
+   */
+  async checkAll(): Promise<{ checked: number; down: number }> {
+    let checked = 0;
+    let down = 0;
+    let batch: IProject[] = [];
+
+    const runBatch = async (): Promise<void> => {
+      const results = await Promise.all(batch.map(project =>
+        this.checkProject(project).catch(error => {
+          log.error(`Failed to record health check for project ${project._id}`, error);
+          return null;
+        })
+      ));
+      checked += results.filter(Boolean).length;
+      down += results.filter(status => status === 'down').length;
+      batch = [];
+    };
+
+    const projects = Project.find(projectStateFilter('active'))
+      .select('organizationId mongoUri connectionOptions health')
+      .cursor();
+
+    for await (const project of projects) {
+      batch.push(project);
+      if (batch.length >= CONSTANTS.HEALTH_CHECK.CONCURRENCY) {
+        await runBatch();
+      }
+    }
+    if (batch.length > 0) {
+      await runBatch();
+    }
+
+    return { checked, down };
+  }
+
+  /**
+   * Current status, uptime and latency over a range, bucketed for charts,
+   * plus the most recent failures
+   */
+  async getHealth(project: IProject, range: string) {
+    const { duration, bucket } = CONSTANTS.HEALTH_CHECK.RANGES[range];
+    const to = new Date();
+    const from = new Date(to.getTime() - duration);
+    const match = {
+      projectId: new mongoose.Types.ObjectId(project._id.toString()),
+      checkedAt: { $gte: from }
+    };
+
+    const [buckets, recentFailures] = await Promise.all([
+      ProjectHealthCheck.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: { $subtract: [{ $toLong: '$checkedAt' }, { $mod: [{ $toLong: '$checkedAt' }, bucket] }] },
+            checks: { $sum: 1 },
+            up: { $sum: { $cond: [{ $eq: ['$status', 'up'] }, 1, 0] } },
+            avgLatencyMs: { $avg: '$latencyMs' }
+          }
+        },
+        { $sort: { _id: 1 } }
+      ]),
+      ProjectHealthCheck.find({ ...match, status: 'down' })
+        .sort({ checkedAt: -1 })
+        .limit(10)
+        .select('checkedAt error')
+    ]);
+
+    const checks = buckets.reduce((sum, row) => sum + row.checks, 0);
+    const up = buckets.reduce((sum, row) => sum + row.up, 0);
+
+    return {
+      status: project.connectionStatus,
+      current: project.health
+        ? {
+          status: project.health.status,
+          since: project.health.since,
+          checkedAt: project.health.checkedAt,
+          latencyMs: project.health.latencyMs ?? null,
+          error: project.health.error ?? null
+        }
+        : null,
+      range,
+      from,
+      to,
+      checks,
+      uptime: this.percent(up, checks),
+      history: buckets.map(row => ({
+        start: new Date(row._id),
+        checks: row.checks,
+        uptime: this.percent(row.up, row.checks),
+        avgLatencyMs: row.avgLatencyMs === null ? null : Math.round(row.avgLatencyMs)
+      })),
+      recentFailures: recentFailures.map(failure => ({
+        checkedAt: failure.checkedAt,
+        error: failure.error
+      }))
+    };
+  }
+
+  private percent(part: number, total: number): number | null {
+    return total === 0 ? null : Math.round((part / total) * 10000) / 100;
+  }
+}
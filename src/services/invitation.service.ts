@@ -0,0 +1,187 @@
+import CryptoJS from 'crypto-js';
+import { Invitation } from '../models/Invitation';
+import { Organization } from '../models/Organization';
+import { User } from '../models/User';
+import { IInvitation, IOrganization, IUser, MemberRole } from '../types';
+import { MailService } from './mail.service';
+import { DomainService } from './domain.service';
+import { ConflictError, NotFoundError, RateLimitError, ValidationError } from '../utils/errors';
+import { CONSTANTS } from '../utils/constants';
+import { createStructuredLogger } from '../utils/logger';
+
+const log = createStructuredLogger('InvitationService');
+
+/**
+ * Invitation Service
+ * Membership by invitation: nobody is added to an organization until they
+ * accept, and people without an account can be invited by email. Only a
+ * hash of the emailed token is stored.
+ */
+export class InvitationService {
+  private domainService = new DomainService();
+
+  async invite(
+    organization: IOrganization,
+    email: string,
+    role: MemberRole,
+    inviter: IUser
+  ): Promise<IInvitation> {
+    const normalizedEmail = email.toLowerCase();
+
+    if (!this.domainService.isEmailAllowed(organization, normalizedEmail)) {
+      throw new ValidationError(
+        `Only people with an email at ${organization.settings.allowedDomains!.join(', ')} can be invited`
+      );
+    }
+
+    const existingUser = await User.findOne({ email: normalizedEmail }).select('_id');
+    if (existingUser && organization.members.some(m => m.userId.toString() === existingUser._id.toString())) {
+      throw new ConflictError('User is already a member');
+    }
+
+    // An expired invitation is refreshed instead of blocking a new one
+    let invitation = await Invitation.findOne({
+      organizationId: organization._id,
+      email: normalizedEmail,
+      status: 'pending'
+    });
+    if (invitation?.isPending()) {
+      throw new ConflictError('This email already has a pending invitation');
+    }
+
+    if (!invitation) {
+      invitation = new Invitation({
+        organizationId: organization._id,
+        email: normalizedEmail
+      });
+    }
+    invitation.role = role;
+    invitation.invitedBy = inviter._id.toString();
+    invitation.userId = existingUser?._id.toString();
+
+    const token = this.issueToken(invitation);
+    await invitation.save();
+    await this.deliver(invitation, organization.name, inviter.name, token);
+
+    log.info('Invitation sent', { organizationId: organization._id.toString(), email: normalizedEmail, role });
+
+    return invitation;
+  }
+
+  /**
+   * Send a pending invitation again with a fresh token and expiry
+   */
+  async resend(invitation: IInvitation, organization: IOrganization, inviter: IUser): Promise<void> {
+    if (invitation.status !== 'pending') {
+      throw new ConflictError(`Invitation has already been ${invitation.status}`);
+    }
+
+    if (Date.now() - invitation.lastSentAt.getTime() < CONSTANTS.INVITATIONS.RESEND_COOLDOWN) {
+      throw new RateLimitError('Please wait a minute before resending this invitation');
+    }
+
+    const token = this.issueToken(invitation);
+    await invitation.save();
+    await this.deliver(invitation, organization.name, inviter.name, token);
+  }
+
+  async findByToken(token: string): Promise<IInvitation> {
+    const invitation = await Invitation.findOne({ tokenHash: this.hashToken(token) });
+    if (!invitation || !invitation.isPending()) {
+      throw new NotFoundError('Invitation');
+    }
+    return invitation;
+  }
+
+  /**
+   * Add the user to the organization and close the invitation. The
+   * organization may have changed since the invite was sent, so its domain
+   * and deletion rules are checked again.
+   */
+  async accept(invitation: IInvitation, user: IUser): Promise<IOrganization> {
+    const organization = await Organization.findById(invitation.organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    if (organization.deletion?.scheduledFor) {
+      throw new ValidationError('This organization is scheduled for deletion and no longer accepts members');
+    }
+
+    if (!this.domainService.isEmailAllowed(organization, user.email)) {
+      throw new ValidationError(
+        `Only people with an email at ${organization.settings.allowedDomains!.join(', ')} can join this organization`
+      );
+    }
+
+    const userId = user._id.toString();
+    if (!organization.members.some(m => m.userId.toString() === userId)) {
+      organization.members.push({ userId, role: invitation.role, joinedAt: new Date() });
+      await organization.save();
+    }
+
+    const organizationId = organization._id.toString();
+    if (!user.organizations.some(id => id.toString() === organizationId)) {
+      user.organizations.push(organizationId);
+      await user.save();
+    }
+
+    await this.close(invitation, 'accepted', userId);
+
+    log.info('Invitation accepted', { organizationId, userId });
+
+    return organization;
+  }
+
+  async decline(invitation: IInvitation, user: IUser): Promise<void> {
+    await this.close(invitation, 'declined', user._id.toString());
+  }
+
+  async revoke(invitation: IInvitation): Promise<void> {
+    if (invitation.status !== 'pending') {
+      throw new ConflictError(`Invitation has already been ${invitation.status}`);
+    }
+    await this.close(invitation, 'revoked');
+  }
+
+  /**
+   * Link pending invitations for a newly registered email to its account
+   */
+  async attachToUser(user: IUser): Promise<IInvitation[]> {
+    await Invitation.updateMany(
+      { email: user.email, status: 'pending', userId: null },
+      { $set: { userId: user._id } }
+    );
+
+    return Invitation.find({
+      userId: user._id,
+      status: 'pending',
+      expiresAt: { $gt: new Date() }
+    }).populate('organizationId', 'name');
+  }
+
+  private async close(invitation: IInvitation, status: 'accepted' | 'declined' | 'revoked', userId?: string) {
+    invitation.status = status;
+    invitation.respondedAt = new Date();
+    if (userId) invitation.userId = userId;
+    await invitation.save();
+  }
+
+  private issueToken(invitation: IInvitation): string {
+    const token = CryptoJS.lib.WordArray.random(32).toString();
+
+    invitation.tokenHash = this.hashToken(token);
+    invitation.expiresAt = new Date(Date.now() + CONSTANTS.INVITATIONS.TOKEN_TTL);
+    invitation.lastSentAt = new Date();
+
+    return token;
+  }
+
+  private async deliver(invitation: IInvitation, organizationName: string, inviterName: string, token: string) {
+    await new MailService().sendInvitation(invitation.email, organizationName, inviterName, invitation.role, token);
+  }
+
+  private hashToken(token: string): string {
+    return CryptoJS.SHA256(token).toString();
+  }
+}
@@ -0,0 +1,152 @@
+import { User } from '../models/User';
+import { IUser } from '../types';
+import { MailService } from './mail.service';
+import { RateLimitError } from '../utils/errors';
+import { CONSTANTS } from '../utils/constants';
+import { createStructuredLogger } from '../utils/logger';
+
+const log = createStructuredLogger('LoginProtection');
+
+/**
+ * LoginProtection Service
+ * Per-account brute-force protection. Failed attempts are counted on the user
+ * document with atomic updates, so the limits hold no matter how many backend
+ * instances or client IPs the attempts are spread over. Repeated failures
+ * first add a growing delay and eventually lock the account for a while.
+ */
+export class LoginProtectionService {
+  /**
+   * Reject the attempt if the account is locked or still in its delay
+   */
+  assertCanAttempt(user: IUser): void {
+    const now = Date.now();
+    const { lockedUntil, nextAttemptAt } = user.loginSecurity || {};
+
+    if (lockedUntil && lockedUntil.getTime() > now) {
+      throw new RateLimitError(
+        `Account temporarily locked after too many failed attempts. Try again in ${this.formatWait(lockedUntil.getTime() - now)}.`
+      );
+    }
+
+    if (nextAttemptAt && nextAttemptAt.getTime() > now) {
+      throw new RateLimitError(
+        `Too many failed attempts. Try again in ${this.formatWait(nextAttemptAt.getTime() - now)}.`
+      );
+    }
+  }
+
+  async recordFailure(user: IUser): Promise<void> {
+    const policy = CONSTANTS.LOGIN_PROTECTION;
+    const now = new Date();
+
+    // Failures outside the window no longer count
+    await User.updateOne(
+      { _id: user._id, 'loginSecurity.lastFailedAt': { $lt: new Date(now.getTime() - policy.ATTEMPT_WINDOW) } },
+      { $set: { 'loginSecurity.failedAttempts': 0 } }
+    );
+
+    const updated = await User.findOneAndUpdate(
+      { _id: user._id },
+      {
+        $inc: { 'loginSecurity.failedAttempts': 1 },
+        $set: { 'loginSecurity.lastFailedAt': now }
+      },
+      { new: true }
+    );
+    const attempts = updated?.loginSecurity?.failedAttempts || 0;
+
+    if (attempts >= policy.MAX_FAILED_ATTEMPTS) {
+      await this.lock(user, now);
+      return;
+    }
+
+    if (attempts >= policy.DELAY_AFTER_ATTEMPTS) {
+      const delay = Math.min(
+        policy.BASE_DELAY * 2 ** (attempts - policy.DELAY_AFTER_ATTEMPTS),
+        policy.MAX_DELAY
+      );
+      await User.updateOne(
+        { _id: user._id },
+        { $set: { 'loginSecurity.nextAttemptAt': new Date(now.getTime() + delay) } }
+      );
+    }
+  }
+
+  async recordSuccess(user: IUser): Promise<void> {
+    if (!user.loginSecurity?.failedAttempts && !user.loginSecurity?.nextAttemptAt) {
+      return;
+    }
+
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: { 'loginSecurity.failedAttempts': 0 },
+        $unset: { 'loginSecurity.nextAttemptAt': '', 'loginSecurity.lastFailedAt': '' }
+      }
+    );
+  }
+
+  /**
+   * Lift a lockout early. Returns false if the account was not locked.
+   */
+  async unlock(userId: string): Promise<boolean> {
+    const result = await User.updateOne(
+      { _id: userId, 'loginSecurity.lockedUntil': { $gt: new Date() } },
+      {
+        $set: { 'loginSecurity.failedAttempts': 0 },
+        $unset: {
+          'loginSecurity.lockedUntil': '',
+          'loginSecurity.nextAttemptAt': '',
+          'loginSecurity.lastFailedAt': ''
+        }
+      }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  isLocked(user: IUser): boolean {
+    const lockedUntil = user.loginSecurity?.lockedUntil;
+    return !!lockedUntil && lockedUntil.getTime() > Date.now();
+  }
+
+  private async lock(user: IUser, now: Date): Promise<void> {
+    const lockedUntil = new Date(now.getTime() + CONSTANTS.LOGIN_PROTECTION.LOCKOUT_DURATION);
+
+    // Only the instance that actually sets the lock sends the notification
+    const locked = await User.findOneAndUpdate(
+      {
+        _id: user._id,
+        $or: [
+          { 'loginSecurity.lockedUntil': null },
+          { 'loginSecurity.lockedUntil': { $lte: now } }
+        ]
+      },
+      {
+        $set: {
+          'loginSecurity.lockedUntil': lockedUntil,
+          'loginSecurity.failedAttempts': 0
+        },
+        $unset: { 'loginSecurity.nextAttemptAt': '' }
+      }
+    );
+
+    if (!locked) return;
+
+    log.warn('Account locked after repeated failed sign-ins', {
+      userId: user._id.toString(),
+      lockedUntil
+    });
+
+    try {
+      await new MailService().sendAccountLocked(user.email, user.name, lockedUntil);
+    } catch (error) {
+      log.error('Failed to send lockout notification', error);
+    }
+  }
+
+  private formatWait(ms: number): string {
+    const seconds = Math.ceil(ms / 1000);
+    if (seconds < 60) return `${seconds} seconds`;
+    return `${Math.ceil(seconds / 60)} minutes`;
+  }
+}
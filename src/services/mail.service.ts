@@ -0,0 +1,239 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { createStructuredLogger } from '../utils/logger';
+
+const log = createStructuredLogger('MailService');
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Anything that can deliver a message. Selected with MAIL_TRANSPORT.
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Delivers through an SMTP relay (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE)
+ */
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP host not configured');
+    }
+
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Development/test stand-in: prints every message to the console and, when
+ * MAIL_OUTPUT_DIR is set, also writes it there as a JSON file.
+ */
+export class LocalMailTransport implements MailTransport {
+  private outputDir?: string;
+
+  constructor(outputDir: string | undefined = process.env.MAIL_OUTPUT_DIR) {
+    this.outputDir = outputDir;
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    log.info(`Mail to ${message.to}: ${message.subject}`);
+    log.debug(message.text);
+
+    if (this.outputDir) {
+      await fs.mkdir(this.outputDir, { recursive: true });
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+      await fs.writeFile(
+        path.join(this.outputDir, fileName),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+    }
+  }
+}
+
+export function createMailTransport(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT || 'local';
+
+  // The local transport only logs, so reset and verification emails would
+  // silently never arrive
+  if (process.env.NODE_ENV === 'production' && transport !== 'smtp') {
+    throw new Error('MAIL_TRANSPORT=smtp and SMTP_HOST must be configured in production');
+  }
+
+  switch (transport) {
+    case 'smtp':
+      return new SmtpMailTransport();
+    case 'local':
+      return new LocalMailTransport();
+    default:
+      throw new Error(`Unknown mail transport: ${transport}`);
+  }
+}
+
+/**
+ * Mail Service
+ * Composes the application's transactional emails and hands them to a transport
+ */
+export class MailService {
+  private transport: MailTransport;
+  private from: string;
+
+  constructor(transport: MailTransport = createMailTransport()) {
+    this.transport = transport;
+    this.from = process.env.MAIL_FROM || 'Dataverse <no-reply@dataverse.local>';
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.send({ ...message, from: this.from });
+    } catch (error) {
+      log.error(`Failed to send mail to ${message.to}`, error);
+      throw error;
+    }
+  }
+
+  async sendPasswordReset(to: string, name: string, token: string): Promise<void> {
+    const link = this.buildClientLink('/reset-password', { token });
+
+    await this.send({
+      to,
+      subject: 'Reset your Dataverse password',
+      text: [
+        `Hi ${name},`,
+        '',
+        'Someone asked to reset the password for your Dataverse account.',
+        'Use the link below within the next hour to choose a new password:',
+        '',
+        link,
+        '',
+        'If you did not request this, you can ignore this email.'
+      ].join('\n')
+    });
+  }
+
+  async sendEmailVerification(to: string, name: string, token: string): Promise<void> {
+    const link = this.buildClientLink('/verify-email', { token });
+
+    await this.send({
+      to,
+      subject: 'Verify your Dataverse email address',
+      text: [
+        `Hi ${name},`,
+        '',
+        'Please confirm that this is your email address by opening the link below within 24 hours:',
+        '',
+        link,
+        '',
+        'If you did not create a Dataverse account, you can ignore this email.'
+      ].join('\n')
+    });
+  }
+
+  async sendPasswordChanged(to: string, name: string): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your Dataverse password was changed',
+      text: [
+        `Hi ${name},`,
+        '',
+        'The password for your Dataverse account was just reset and all of your sessions were signed out.',
+        'If this was not you, reset your password immediately and contact your organization admin.'
+      ].join('\n')
+    });
+  }
+
+  async sendInvitation(
+    to: string,
+    organizationName: string,
+    inviterName: string,
+    role: string,
+    token: string
+  ): Promise<void> {
+    const link = this.buildClientLink('/invitations/accept', { token });
+
+    await this.send({
+      to,
+      subject: `${inviterName} invited you to ${organizationName} on Dataverse`,
+      text: [
+        'Hi,',
+        '',
+        `${inviterName} invited you to join ${organizationName} on Dataverse as ${role === 'admin' ? 'an' : 'a'} ${role}.`,
+        'Open the link below within 7 days to accept. You can create an account on the way if you do not have one yet:',
+        '',
+        link,
+        '',
+        'If you were not expecting this, you can ignore this email.'
+      ].join('\n')
+    });
+  }
+
+  async sendAccountLocked(to: string, name: string, lockedUntil: Date): Promise<void> {
+    const link = this.buildClientLink('/forgot-password', {});
+
+    await this.send({
+      to,
+      subject: 'Your Dataverse account was temporarily locked',
+      text: [
+        `Hi ${name},`,
+        '',
+        'We locked your Dataverse account after too many failed sign-in attempts.',
+        `You can try again after ${lockedUntil.toUTCString()}, or ask an organization admin to unlock it.`,
+        '',
+        'If these attempts were not you, consider resetting your password:',
+        link
+      ].join('\n')
+    });
+  }
+
+  async sendAiBudgetWarning(
+    to: string,
+    name: string,
+    organizationName: string,
+    budget: string,
+    percent: number
+  ): Promise<void> {
+    const reached = percent >= 100;
+
+    await this.send({
+      to,
+      subject: reached
+        ? `AI budget reached in ${organizationName} on Dataverse`
+        : `AI budget ${percent}% used in ${organizationName} on Dataverse`,
+      text: [
+        `Hi ${name},`,
+        '',
+        reached
+          ? `${budget} has been reached. New AI requests are refused until it resets at the start of next month or an admin raises it.`
+          : `${budget} is ${percent}% used for this month.`,
+        '',
+        'Organization admins can review usage and adjust budgets in the organization settings.'
+      ].join('\n')
+    });
+  }
+
+  private buildClientLink(pathname: string, params: Record<string, string>): string {
+    const url = new URL(pathname, process.env.CLIENT_URL || 'http://localhost:3000');
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+    return url.toString();
+  }
+}
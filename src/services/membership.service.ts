@@ -0,0 +1,126 @@
+import { Organization } from '../models/Organization';
+import { Role } from '../models/Role';
+import { MemberRole, Permission } from '../types';
+import { CacheService } from './cache.service';
+import { AuthorizationError } from '../utils/errors';
+import { CONSTANTS } from '../utils/constants';
+
+interface Membership {
+  role: MemberRole;
+  customRoleId: string | null;
+}
+
+/**
+ * Membership Service
+ * Role and permission lookups for the active organization of a request.
+ * Memberships and custom role permissions are cached briefly in Redis;
+ * anything that changes a membership must call invalidate, anything that
+ * changes a custom role must call invalidateRole.
+ */
+export class MembershipService {
+  private cacheService: CacheService;
+
+  constructor() {
+    this.cacheService = new CacheService();
+  }
+
+  /**
+   * The user's role in the organization, or null if they are not a member
+   */
+  async getRole(organizationId: string, userId: string): Promise<MemberRole | null> {
+    const membership = await this.getMembership(organizationId, userId);
+    return membership?.role || null;
+  }
+
+  /**
+   * What the user may do in the organization: their custom role's
+   * permissions if they have one, otherwise their built-in role's
+   */
+  async getPermissions(organizationId: string, userId: string): Promise<Permission[]> {
+    const membership = await this.getMembership(organizationId, userId);
+    if (!membership) {
+      return [];
+    }
+
+    if (membership.customRoleId) {
+      const permissions = await this.getCustomRolePermissions(membership.customRoleId);
+      if (permissions) {
+        return permissions;
+      }
+    }
+
+    return this.getRolePermissions(membership.role);
+  }
+
+  getRolePermissions(role: MemberRole): Permission[] {
+    return (CONSTANTS.ROLE_PERMISSIONS[role] || []) as Permission[];
+  }
+
+  /**
+   * Nobody can hand out permissions they do not hold themselves
+   */
+  assertCanGrant(own: Permission[] = [], permissions: Permission[]): void {
+    const missing = permissions.filter(permission => !own.includes(permission));
+    if (missing.length > 0) {
+      throw new AuthorizationError(`You cannot grant permissions you do not have: ${missing.join(', ')}`);
+    }
+  }
+
+  async invalidate(organizationId: string, userId: string): Promise<void> {
+    await this.cacheService.delete(this.cacheKey(organizationId, userId));
+  }
+
+  async invalidateRole(roleId: string): Promise<void> {
+    await this.cacheService.delete(`role-permissions:${roleId}`);
+  }
+
+  private async getMembership(organizationId: string, userId: string): Promise<Membership | null> {
+    const cacheKey = this.cacheKey(organizationId, userId);
+
+    const cached = await this.cacheService.get<Membership>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const organization = await Organization.findOne(
+      { _id: organizationId, 'members.userId': userId },
+      { 'members.$': 1 }
+    );
+    const member = organization?.members[0];
+    if (!member) {
+      return null;
+    }
+
+    const membership: Membership = {
+      role: member.role,
+      customRoleId: member.customRoleId ? member.customRoleId.toString() : null
+    };
+
+    // Only memberships are cached so new members are never turned away
+    await this.cacheService.set(cacheKey, membership, CONSTANTS.CACHE.MEMBER_ROLE_TTL);
+
+    return membership;
+  }
+
+  private async getCustomRolePermissions(roleId: string): Promise<Permission[] | null> {
+    const cacheKey = `role-permissions:${roleId}`;
+
+    const cached = await this.cacheService.get<Permission[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const role = await Role.findById(roleId).select('permissions');
+    if (!role) {
+      return null;
+    }
+
+    await this.cacheService.set(cacheKey, role.permissions, CONSTANTS.CACHE.MEMBER_ROLE_TTL);
+
+    return role.permissions;
+  }
+
+  private cacheKey(organizationId: string, userId: string): string {
+    return `membership:${organizationId}:${userId}`;
+  }
+}
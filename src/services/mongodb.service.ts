@@ -1,4 +1,5 @@
-import { MongoClient, Db, Collection } from 'mongodb';
+import { MongoClient, MongoClientOptions, Db, Collection } from 'mongodb';
+import { MongoConnectionOptions } from '../types';
 import { DatabaseConnectionError, ValidationError } from '../utils/errors';
 import { createStructuredLogger } from '../utils/logger';
 import { CONSTANTS } from '../utils/constants';
@@ -43,12 +44,12 @@ class ConnectionPoolManager {
     return ConnectionPoolManager.instance;
   }
 
-  async getConnection(connectionString: string): Promise<MongoClient> {
+  async getConnection(connectionString: string, options: MongoConnectionOptions = {}): Promise<MongoClient> {
     if (!connectionString) {
       throw new Error('Connection string is required');
     }
 
-    const poolKey = this.hashConnectionString(connectionString);
+    const poolKey = this.getPoolKey(connectionString, options);
     const existingPool = this.pools.get(poolKey);
 
     if (existingPool) {
@@ -59,14 +60,7 @@ class ConnectionPoolManager {
     }
 
     this.log.info(`Creating new MongoDB connection`, { poolKey });
-    const client = new MongoClient(connectionString, {
-      serverSelectionTimeoutMS: CONSTANTS.MONGODB.CONNECTION_TIMEOUT,
-      maxPoolSize: CONSTANTS.MONGODB.MAX_POOL_SIZE,
-      // SSL/TLS configuration for development
-      tls: true,
-      tlsInsecure: process.env.NODE_ENV !== 'production', // Skip cert validation in dev
-      retryWrites: true
-    });
+    const client = new MongoClient(connectionString, this.buildClientOptions(options));
 
     await client.connect();
     this.log.success(`MongoDB connection established`, { poolKey });
@@ -80,8 +74,25 @@ class ConnectionPoolManager {
     return client;
   }
 
-  releaseConnection(connectionString: string): void {
-    const poolKey = this.hashConnectionString(connectionString);
+  /**
+   * Ping a cluster on a throwaway client, so periodic health checks do not
+   * keep a pooled connection open for every project
+   */
+  async probe(connectionString: string, options: MongoConnectionOptions = {}): Promise<number> {
+    const client = new MongoClient(connectionString, { ...this.buildClientOptions(options), maxPoolSize: 1 });
+
+    try {
+      await client.connect();
+      const startTime = Date.now();
+      await client.db('admin').command({ ping: 1 });
+      return Date.now() - startTime;
+    } finally {
+      await client.close();
+    }
+  }
+
+  releaseConnection(connectionString: string, options: MongoConnectionOptions = {}): void {
+    const poolKey = this.getPoolKey(connectionString, options);
     const pool = this.pools.get(poolKey);
 
     if (pool) {
@@ -109,6 +120,45 @@ class ConnectionPoolManager {
     }, 60000); // Check every minute
   }
 
+  /**
+   * Client options for a project's connection settings. Without a CA bundle,
+   * development keeps skipping certificate validation.
+   */
+  private buildClientOptions(options: MongoConnectionOptions): MongoClientOptions {
+    const clientOptions: MongoClientOptions = {
+      serverSelectionTimeoutMS: CONSTANTS.MONGODB.CONNECTION_TIMEOUT,
+      maxPoolSize: CONSTANTS.MONGODB.MAX_POOL_SIZE,
+      tls: true,
+      tlsInsecure: !options.caCertificate && process.env.NODE_ENV !== 'production',
+      retryWrites: true
+    };
+
+    if (options.caCertificate) clientOptions.ca = options.caCertificate;
+    if (options.clientCertificate) clientOptions.cert = options.clientCertificate;
+    if (options.clientKey) clientOptions.key = options.clientKey;
+    if (options.clientKeyPassphrase) clientOptions.passphrase = options.clientKeyPassphrase;
+    if (options.readPreference) clientOptions.readPreference = options.readPreference;
+    if (options.appName) clientOptions.appName = options.appName;
+
+    if (options.authMechanism === 'MONGODB-X509') {
+      if (!options.clientCertificate || !options.clientKey) {
+        throw new ValidationError('X.509 authentication requires a client certificate and key');
+      }
+      clientOptions.authMechanism = 'MONGODB-X509';
+      // X.509 users always live in $external
+      clientOptions.authSource = '$external';
+    } else {
+      if (options.authMechanism) clientOptions.authMechanism = options.authMechanism;
+      if (options.authSource) clientOptions.authSource = options.authSource;
+    }
+
+    return clientOptions;
+  }
+
+  private getPoolKey(connectionString: string, options: MongoConnectionOptions): string {
+    return this.hashConnectionString(`${connectionString}|${JSON.stringify(options)}`);
+  }
+
   private hashConnectionString(connectionString: string): string {
     // Simple hash to create a unique key for each connection string
     let hash = 0;
@@ -145,13 +195,15 @@ class ConnectionPoolManager {
 export class MongoDBService {
   private client: MongoClient | null = null;
   private connectionString: string;
+  private connectionOptions: MongoConnectionOptions;
   private connectionTimeout: number;
   private poolManager: ConnectionPoolManager;
   private log = createStructuredLogger('MongoDBService');
   private isConnected: boolean = false;
 
-  constructor(connectionString: string) {
+  constructor(connectionString: string, connectionOptions: MongoConnectionOptions = {}) {
     this.connectionString = connectionString;
+    this.connectionOptions = connectionOptions;
     this.connectionTimeout = CONSTANTS.MONGODB.CONNECTION_TIMEOUT;
     this.poolManager = ConnectionPoolManager.getInstance();
   }
@@ -159,7 +211,7 @@ export class MongoDBService {
   async connect(): Promise<void> {
     try {
       this.log.step(1, 3, 'Acquiring MongoDB connection from pool');
-      this.client = await this.poolManager.getConnection(this.connectionString);
+      this.client = await this.poolManager.getConnection(this.connectionString, this.connectionOptions);
       this.isConnected = true;
       this.log.success('Connection acquired successfully');
     } catch (error: any) {
@@ -171,12 +223,19 @@ export class MongoDBService {
   async disconnect(): Promise<void> {
     if (this.client && this.isConnected) {
       this.log.step(1, 1, 'Releasing connection back to pool');
-      this.poolManager.releaseConnection(this.connectionString);
+      this.poolManager.releaseConnection(this.connectionString, this.connectionOptions);
       this.isConnected = false;
       this.log.success('Connection released');
     }
   }
 
+  /**
+   * Round trip time of a ping to the cluster, in milliseconds
+   */
+  async ping(): Promise<number> {
+    return this.poolManager.probe(this.connectionString, this.connectionOptions);
+  }
+
   async validateConnection(): Promise<ConnectionInfo> {
     const startTime = Date.now();
     this.log.section('VALIDATING MONGODB CONNECTION');
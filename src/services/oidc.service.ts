@@ -0,0 +1,234 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { SsoLoginState } from '../models/SsoLoginState';
+import { IOrganization, MemberRole, SsoSettings } from '../types';
+import { EncryptionService } from './encryption.service';
+import { AuthenticationError, ValidationError } from '../utils/errors';
+import { CONSTANTS } from '../utils/constants';
+import { createStructuredLogger } from '../utils/logger';
+
+const log = createStructuredLogger('OidcService');
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface JsonWebKey {
+  kid?: string;
+  kty: string;
+  use?: string;
+  [key: string]: unknown;
+}
+
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+export interface OidcLoginResult {
+  organizationId: string;
+  claims: OidcClaims;
+}
+
+const discoveryCache = new Map<string, { metadata: ProviderMetadata; fetchedAt: number }>();
+
+/**
+ * OIDC Service
+ * Authorization code flow with PKCE against an organization's identity
+ * provider. Login state (verifier, nonce) is kept server-side and consumed
+ * exactly once; ID tokens are verified against the provider's JWKS.
+ */
+export class OidcService {
+  /**
+   * Start a login: persist PKCE/nonce state and build the provider URL.
+   * linkUserId marks a link started by a signed-in user.
+   */
+  async createAuthorizationUrl(
+    organization: IOrganization,
+    redirectUri: string,
+    linkUserId: string | null = null
+  ): Promise<string> {
+    const sso = this.getSettings(organization);
+    const metadata = await this.discover(sso.issuer!);
+
+    const state = this.randomValue();
+    const nonce = this.randomValue();
+    const codeVerifier = this.randomValue(48);
+
+    await SsoLoginState.create({
+      state,
+      organizationId: organization._id,
+      codeVerifier,
+      nonce,
+      redirectUri,
+      linkUserId,
+      expiresAt: new Date(Date.now() + CONSTANTS.SSO.STATE_TTL)
+    });
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: sso.clientId!,
+      redirect_uri: redirectUri,
+      scope: sso.scopes || CONSTANTS.SSO.DEFAULT_SCOPES,
+      state,
+      nonce,
+      code_challenge: this.base64Url(crypto.createHash('sha256').update(codeVerifier).digest()),
+      code_challenge_method: 'S256'
+    }).toString();
+
+    return url.toString();
+  }
+
+  /**
+   * Redeem the state issued by createAuthorizationUrl. Returns the organization
+   * the login was started for, so callers can load it with its secret.
+   */
+  async consumeState(state: string) {
+    const loginState = await SsoLoginState.findOneAndDelete({ state });
+    if (!loginState || loginState.expiresAt <= new Date()) {
+      throw new AuthenticationError('SSO login expired, please start again');
+    }
+    return loginState;
+  }
+
+  /**
+   * Exchange an authorization code and return the verified ID token claims
+   */
+  async exchangeCode(
+    organization: IOrganization,
+    code: string,
+    loginState: { codeVerifier: string; nonce: string; redirectUri: string }
+  ): Promise<OidcClaims> {
+    const sso = this.getSettings(organization);
+    const metadata = await this.discover(sso.issuer!);
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: loginState.redirectUri,
+      client_id: sso.clientId!,
+      code_verifier: loginState.codeVerifier
+    });
+    if (sso.clientSecret) {
+      body.set('client_secret', new EncryptionService().decrypt(sso.clientSecret));
+    }
+
+    const response = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: body.toString()
+    });
+
+    const tokens = await response.json().catch(() => ({})) as { id_token?: string; error?: string };
+    if (!response.ok || !tokens.id_token) {
+      log.warn('Token exchange failed', { issuer: sso.issuer, status: response.status, error: tokens.error });
+      throw new AuthenticationError('Identity provider rejected the login');
+    }
+
+    const claims = await this.verifyIdToken(tokens.id_token, metadata, sso.clientId!);
+    if (claims.nonce !== loginState.nonce) {
+      throw new AuthenticationError('Invalid SSO response');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Map the IdP groups in the claims to an organization role. The highest
+   * matching role wins; without a match the default role applies, if any.
+   */
+  resolveRole(sso: SsoSettings, claims: OidcClaims): MemberRole | null {
+    const rawGroups = claims[sso.groupsClaim || CONSTANTS.SSO.DEFAULT_GROUPS_CLAIM];
+    const groups = Array.isArray(rawGroups)
+      ? rawGroups.map(String)
+      : typeof rawGroups === 'string' ? [rawGroups] : [];
+
+    let resolved: MemberRole | null = null;
+    for (const mapping of sso.roleMappings || []) {
+      if (!groups.includes(mapping.group)) continue;
+      if (!resolved || CONSTANTS.ROLE_LEVELS[mapping.role] > CONSTANTS.ROLE_LEVELS[resolved]) {
+        resolved = mapping.role;
+      }
+    }
+
+    return resolved || sso.defaultRole || null;
+  }
+
+  private getSettings(organization: IOrganization): SsoSettings {
+    const sso = organization.settings?.sso;
+    if (!sso?.enabled || !sso.issuer || !sso.clientId) {
+      throw new ValidationError('Single sign-on is not configured for this organization');
+    }
+    return sso;
+  }
+
+  private async verifyIdToken(idToken: string, metadata: ProviderMetadata, clientId: string): Promise<OidcClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new AuthenticationError('Invalid ID token');
+    }
+
+    const keys = await this.fetchJson<{ keys: JsonWebKey[] }>(metadata.jwks_uri);
+    const jwk = keys.keys.find(key =>
+      key.kty === 'RSA' && (!decoded.header.kid || key.kid === decoded.header.kid)
+    );
+    if (!jwk) {
+      throw new AuthenticationError('ID token signing key not found');
+    }
+
+    const publicKey = crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' })
+      .export({ type: 'spki', format: 'pem' });
+
+    try {
+      return jwt.verify(idToken, publicKey, {
+        algorithms: ['RS256'],
+        audience: clientId,
+        issuer: metadata.issuer
+      }) as OidcClaims;
+    } catch (error) {
+      log.warn('ID token verification failed', { error: (error as Error).message });
+      throw new AuthenticationError('Invalid ID token');
+    }
+  }
+
+  private async discover(issuer: string): Promise<ProviderMetadata> {
+    const cached = discoveryCache.get(issuer);
+    if (cached && Date.now() - cached.fetchedAt < CONSTANTS.SSO.DISCOVERY_CACHE_TTL) {
+      return cached.metadata;
+    }
+
+    const metadata = await this.fetchJson<ProviderMetadata>(
+      `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`
+    );
+    discoveryCache.set(issuer, { metadata, fetchedAt: Date.now() });
+
+    return metadata;
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      log.error(`Identity provider request failed: ${url} (${response.status})`);
+      throw new AuthenticationError('Identity provider is unavailable');
+    }
+    return response.json() as Promise<T>;
+  }
+
+  private randomValue(bytes: number = 32): string {
+    return this.base64Url(crypto.randomBytes(bytes));
+  }
+
+  private base64Url(buffer: Buffer): string {
+    return buffer.toString('base64url');
+  }
+}
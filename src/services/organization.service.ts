@@ -0,0 +1,119 @@
+import { Organization } from '../models/Organization';
+import { User } from '../models/User';
+import { Project } from '../models/Project';
+import { ChatHistory } from '../models/ChatHistory';
+import { ServiceAccount } from '../models/ServiceAccount';
+import { ApiToken } from '../models/ApiToken';
+import { Invitation } from '../models/Invitation';
+import { Team } from '../models/Team';
+import { Role } from '../models/Role';
+import { ActivityEvent } from '../models/ActivityEvent';
+import { UsageRecord } from '../models/UsageRecord';
+import { ProjectHealthCheck } from '../models/ProjectHealthCheck';
+import { IOrganization } from '../types';
+import { CacheService } from './cache.service';
+import { ValidationError } from '../utils/errors';
+import { CONSTANTS } from '../utils/constants';
+import { createStructuredLogger } from '../utils/logger';
+
+const log = createStructuredLogger('OrganizationService');
+
+/**
+ * Organization Service
+ * Operations on an organization that span several collections
+ */
+export class OrganizationService {
+  private cacheService: CacheService;
+
+  constructor() {
+    this.cacheService = new CacheService();
+  }
+
+  /**
+   * Mark an organization for deletion. It stays restorable until the grace
+   * period ends, after which the sweeper purges it.
+   */
+  async scheduleDeletion(organization: IOrganization, requestedBy: string): Promise<Date> {
+    if (organization.deletion?.scheduledFor) {
+      throw new ValidationError('Organization is already scheduled for deletion');
+    }
+
+    const scheduledFor = new Date(Date.now() + CONSTANTS.ORGANIZATION_DELETION.GRACE_PERIOD);
+    organization.deletion = {
+      requestedAt: new Date(),
+      requestedBy,
+      scheduledFor
+    };
+    await organization.save();
+
+    log.warn('Organization scheduled for deletion', {
+      organizationId: organization._id.toString(),
+      scheduledFor
+    });
+
+    return scheduledFor;
+  }
+
+  async restore(organization: IOrganization): Promise<void> {
+    if (!organization.deletion?.scheduledFor) {
+      throw new ValidationError('Organization is not scheduled for deletion');
+    }
+
+    organization.deletion = undefined;
+    await organization.save();
+
+    log.info('Organization restored', { organizationId: organization._id.toString() });
+  }
+
+  /**
+   * Purge every organization whose grace period has ended. Each one is
+   * claimed first so concurrent instances never purge the same organization.
+   */
+  async purgeDueOrganizations(): Promise<number> {
+    let purged = 0;
+
+    for (;;) {
+      const organization = await Organization.findOneAndUpdate(
+        {
+          'deletion.scheduledFor': { $lte: new Date() },
+          'deletion.purgeStartedAt': null
+        },
+        { $set: { 'deletion.purgeStartedAt': new Date() } }
+      );
+      if (!organization) break;
+
+      await this.purgeOrganization(organization._id.toString());
+      purged++;
+    }
+
+    return purged;
+  }
+
+  /**
+   * Delete an organization together with everything that belongs to it:
+   * projects with their chat history, health checks and cached schemas, service accounts,
+   * API tokens, invitations, teams, custom roles, activity, AI usage, and the membership references on its users.
+   */
+  async purgeOrganization(organizationId: string): Promise<void> {
+    const projectIds = await Project.find({ organizationId }).distinct('_id');
+
+    await ChatHistory.deleteMany({ projectId: { $in: projectIds } });
+    await ProjectHealthCheck.deleteMany({ organizationId });
+    await Promise.all(projectIds.map(id => this.cacheService.delete(`schema:${id}`)));
+    await Project.deleteMany({ organizationId });
+    await ApiToken.deleteMany({ organizationId });
+    await ServiceAccount.deleteMany({ organizationId });
+    await Invitation.deleteMany({ organizationId });
+    await Team.deleteMany({ organizationId });
+    await Role.deleteMany({ organizationId });
+    await ActivityEvent.deleteMany({ organizationId });
+    await UsageRecord.deleteMany({ organizationId });
+    await User.updateMany(
+      { organizations: organizationId },
+      { $pull: { organizations: organizationId } }
+    );
+    await Organization.deleteOne({ _id: organizationId });
+
+    log.info('Organization purged', { organizationId, projects: projectIds.length });
+  }
+}
@@ -0,0 +1,62 @@
+import { Project } from '../models/Project';
+import { Team } from '../models/Team';
+import { AuthRequest, ProjectState } from '../types';
+import { MembershipService } from './membership.service';
+
+type RequestUser = NonNullable<AuthRequest['user']>;
+
+/**
+ * Filter for projects in a lifecycle state. Projects created before states
+ * existed have none and count as active.
+ */
+export function projectStateFilter(state: ProjectState): Record<string, any> {
+  return state === 'active'
+    ? { state: { $nin: ['archived', 'deleted'] } }
+    : { state };
+}
+
+/**
+ * Project Access Service
+ * Which projects in the active organization a caller may see. Service
+ * accounts and members with project.view_all see everything; other members
+ * see projects open to the whole organization plus those granted to one of
+ * their teams.
+ */
+export class ProjectAccessService {
+  private membershipService = new MembershipService();
+
+  /**
+   * Query filter selecting the projects the caller can access
+   */
+  async getAccessFilter(user: RequestUser): Promise<Record<string, any>> {
+    const filter: Record<string, any> = { organizationId: user.organizationId };
+
+    if (user.apiToken?.type === 'service') {
+      return filter;
+    }
+
+    const permissions = user.permissions ||
+      await this.membershipService.getPermissions(user.organizationId!, user.userId);
+    if (permissions.includes('project.view_all')) {
+      return filter;
+    }
+
+    const teamIds = await this.getTeamIds(user.organizationId!, user.userId);
+    filter.$or = [
+      { visibility: { $ne: 'teams' } },
+      { teamIds: { $in: teamIds } }
+    ];
+
+    return filter;
+  }
+
+  async canAccess(user: RequestUser, projectId: string): Promise<boolean> {
+    const filter = await this.getAccessFilter(user);
+    return !!(await Project.exists({ ...filter, _id: projectId }));
+  }
+
+  async getTeamIds(organizationId: string, userId: string): Promise<string[]> {
+    const ids = await Team.find({ organizationId, members: userId }).distinct('_id');
+    return ids.map(id => id.toString());
+  }
+}
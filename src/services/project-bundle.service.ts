@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { MongoConnectionOptions } from '../types';
+import { ValidationError } from '../utils/errors';
+import { CONSTANTS } from '../utils/constants';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// Version 1 bundles: AES-256-GCM with a key derived by scrypt from the passphrase
+const KEY_LENGTH = 32;
+const SCRYPT_OPTIONS: crypto.ScryptOptions = { N: 16384, r: 8, p: 1 };
+
+/** Everything needed to recreate a project elsewhere */
+export interface ProjectBundleContents {
+  name: string;
+  databaseName: string;
+  databases: string[];
+  mongoUri: string;
+  apiKey: string | null;
+  connectionOptions: MongoConnectionOptions;
+  schemaCache: any;
+}
+
+export interface ProjectBundle {
+  format: string;
+  version: number;
+  exportedAt: string;
+  salt: string;
+  iv: string;
+  authTag: string;
+  payload: string;
+}
+
+/**
+ * Project Bundle Service
+ * Seals project settings into passphrase-encrypted bundles that any
+ * server can open, independent of its own encryption key
+ */
+export class ProjectBundleService {
+  async seal(contents: ProjectBundleContents, passphrase: string): Promise<ProjectBundle> {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = await scrypt(passphrase, salt, KEY_LENGTH, SCRYPT_OPTIONS);
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const payload = Buffer.concat([cipher.update(JSON.stringify(contents), 'utf8'), cipher.final()]);
+
+    return {
+      format: CONSTANTS.PROJECT_BUNDLE.FORMAT,
+      version: CONSTANTS.PROJECT_BUNDLE.VERSION,
+      exportedAt: new Date().toISOString(),
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
+      payload: payload.toString('base64')
+    };
+  }
+
+  async open(bundle: ProjectBundle, passphrase: string): Promise<ProjectBundleContents> {
+    if (bundle?.format !== CONSTANTS.PROJECT_BUNDLE.FORMAT) {
+      throw new ValidationError('Not a project bundle');
+    }
+    if (bundle.version !== CONSTANTS.PROJECT_BUNDLE.VERSION) {
+      throw new ValidationError(`Unsupported bundle version ${bundle.version}`);
+    }
+
+    let contents: ProjectBundleContents;
+    try {
+      const key = await scrypt(passphrase, Buffer.from(bundle.salt, 'base64'), KEY_LENGTH, SCRYPT_OPTIONS);
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(bundle.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(bundle.authTag, 'base64'));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(bundle.payload, 'base64')),
+        decipher.final()
+      ]);
+      contents = JSON.parse(plaintext.toString('utf8'));
+    } catch {
+      // GCM cannot tell a wrong passphrase from a tampered bundle
+      throw new ValidationError('Wrong passphrase or damaged bundle');
+    }
+
+    if (typeof contents.name !== 'string' || typeof contents.mongoUri !== 'string') {
+      throw new ValidationError('Bundle is missing project settings');
+    }
+
+    return {
+      name: contents.name,
+      databaseName: contents.databaseName,
+      databases: Array.isArray(contents.databases) ? contents.databases : [],
+      mongoUri: contents.mongoUri,
+      apiKey: contents.apiKey || null,
+      connectionOptions: contents.connectionOptions || {},
+      schemaCache: contents.schemaCache || null
+    };
+  }
+}
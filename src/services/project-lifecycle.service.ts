@@ -0,0 +1,112 @@
+import { Project } from '../models/Project';
+import { ChatHistory } from '../models/ChatHistory';
+import { ProjectHealthCheck } from '../models/ProjectHealthCheck';
+import { IOrganization, IProject } from '../types';
+import { CacheService } from './cache.service';
+import { EntitlementService } from './entitlement.service';
+import { ConflictError } from '../utils/errors';
+import { CONSTANTS } from '../utils/constants';
+import { createStructuredLogger } from '../utils/logger';
+
+const log = createStructuredLogger('ProjectLifecycleService');
+
+/**
+ * Project Lifecycle Service
+ * Archiving, deletion into a trash with a retention window, restore, and
+ * the purge of projects whose retention has run out
+ */
+export class ProjectLifecycleService {
+  private cacheService = new CacheService();
+  private entitlementService = new EntitlementService();
+
+  /**
+   * Archived and deleted projects are read-only until restored
+   */
+  assertActive(project: Pick<IProject, 'state'>): void {
+    if (project.state === 'archived') {
+      throw new ConflictError('Project is archived. Restore it to use it again');
+    }
+    if (project.state === 'deleted') {
+      throw new ConflictError('Project is in the trash. Restore it to use it again');
+    }
+  }
+
+  async archive(project: IProject): Promise<void> {
+    this.assertActive(project);
+
+    project.state = 'archived';
+    project.archivedAt = new Date();
+    await project.save();
+  }
+
+  /**
+   * Move a project to the trash. Returns when it will be purged.
+   */
+  async trash(project: IProject): Promise<Date> {
+    if (project.state === 'deleted') {
+      throw new ConflictError('Project is already in the trash');
+    }
+
+    const purgeAt = new Date(Date.now() + CONSTANTS.PROJECT_DELETION.RETENTION);
+    project.state = 'deleted';
+    project.deletedAt = new Date();
+    project.purgeAt = purgeAt;
+    await project.save();
+
+    return purgeAt;
+  }
+
+  /**
+   * Bring an archived or deleted project back. It takes a project slot
+   * again, and its name may have been reused in the meantime.
+   */
+  async restore(project: IProject, organization: IOrganization): Promise<void> {
+    if (project.state !== 'archived' && project.state !== 'deleted') {
+      throw new ConflictError('Project is not archived or deleted');
+    }
+
+    await this.entitlementService.assertQuota(organization, 'projects');
+
+    const nameTaken = await Project.exists({
+      organizationId: project.organizationId,
+      _id: { $ne: project._id },
+      state: { $ne: 'deleted' },
+      name: { $regex: new RegExp(`^${project.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i') }
+    });
+    if (nameTaken) {
+      throw new ConflictError('Another project now uses this name. Rename that project first');
+    }
+
+    project.state = 'active';
+    project.archivedAt = null;
+    project.deletedAt = null;
+    project.purgeAt = null;
+    await project.save();
+  }
+
+  /**
+   * Permanently remove deleted projects whose retention has ended, with
+   * their chat history, health checks and cached schema
+   */
+  async purgeDueProjects(): Promise<number> {
+    let purged = 0;
+
+    for (;;) {
+      const project = await Project.findOneAndDelete({
+        state: 'deleted',
+        purgeAt: { $lte: new Date() }
+      });
+      if (!project) break;
+
+      const projectId = project._id.toString();
+      await ChatHistory.deleteMany({ projectId });
+      await ProjectHealthCheck.deleteMany({ projectId });
+      await this.cacheService.delete(`schema:${projectId}`);
+
+      log.info('Project purged', { projectId, organizationId: project.organizationId.toString() });
+      purged++;
+    }
+
+    return purged;
+  }
+}
@@ -0,0 +1,174 @@
+import { Project } from '../models/Project';
+import { ProjectConnectionStatus, ProjectListQuery } from '../types';
+import { CONSTANTS } from '../utils/constants';
+
+// List sort keys and the fields they sort on
+const SORT_FIELDS: Record<string, string> = {
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  name: 'name',
+  lastAccessed: 'lastAccessed',
+  size: 'schemaCache.stats.totalDocuments'
+};
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export interface ProjectFolder {
+  path: string;
+  name: string;
+  parent: string | null;
+  projects: number;
+}
+
+/**
+ * Project Search Service
+ * Filters, free-text search and sorting for the projects list, and the
+ * tags and folders in use
+ */
+export class ProjectSearchService {
+  /**
+   * Conditions to combine with the access and state filters. Each one is
+   * its own clause so their $or branches do not collide.
+   */
+  buildConditions(query: ProjectListQuery, userId: string): Record<string, any>[] {
+    const conditions: Record<string, any>[] = [];
+
+    const search = query.search?.trim();
+    if (search) {
+      const pattern = new RegExp(escapeRegex(search), 'i');
+      conditions.push({
+        $or: [
+          { name: pattern },
+          { databaseName: pattern },
+          { databases: pattern },
+          { 'schemaCache.collections.name': pattern }
+        ]
+      });
+    }
+
+    const tags = this.parseTags(query.tag);
+    if (tags.length > 0) {
+      conditions.push({ tags: { $all: tags } });
+    }
+
+    if (query.folder) {
+      conditions.push(this.folderCondition(query.folder));
+    }
+
+    if (query.status) {
+      conditions.push(this.statusCondition(query.status));
+    }
+
+    if (query.createdBy) {
+      conditions.push({ createdBy: query.createdBy === 'me' ? userId : query.createdBy });
+    }
+
+    return conditions;
+  }
+
+  buildSort(sortBy = 'createdAt', order = 'desc'): Record<string, 1 | -1> {
+    const direction = order === 'asc' ? 1 : -1;
+    // _id breaks ties so pages never overlap
+    return { [SORT_FIELDS[sortBy] || SORT_FIELDS.createdAt]: direction, _id: direction };
+  }
+
+  /**
+   * Tags in use with how many projects carry each, most used first
+   */
+  async listTags(filter: Record<string, any>): Promise<Array<{ tag: string; projects: number }>> {
+    const projects = await Project.find({ ...filter, 'tags.0': { $exists: true } }).select('tags').lean();
+
+    const counts = new Map<string, number>();
+    for (const project of projects) {
+      for (const tag of project.tags) {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+      }
+    }
+
+    return Array.from(counts, ([tag, count]) => ({ tag, projects: count }))
+      .sort((a, b) => b.projects - a.projects || a.tag.localeCompare(b.tag));
+  }
+
+  /**
+   * Every folder in use, parents included, sorted by path. A folder's
+   * count includes the projects in its subfolders.
+   */
+  async listFolders(filter: Record<string, any>): Promise<ProjectFolder[]> {
+    const projects = await Project.find({ ...filter, folder: { $ne: null } }).select('folder').lean();
+
+    const counts = new Map<string, number>();
+    for (const project of projects) {
+      const segments = project.folder!.split('/');
+      segments.forEach((_, i) => {
+        const path = segments.slice(0, i + 1).join('/');
+        counts.set(path, (counts.get(path) || 0) + 1);
+      });
+    }
+
+    return Array.from(counts.keys()).sort().map(path => {
+      const separator = path.lastIndexOf('/');
+      return {
+        path,
+        name: path.slice(separator + 1),
+        parent: separator === -1 ? null : path.slice(0, separator),
+        projects: counts.get(path)!
+      };
+    });
+  }
+
+  /**
+   * Tags may be repeated or comma-separated; a project must carry all of them
+   */
+  private parseTags(value: ProjectListQuery['tag']): string[] {
+    const values = Array.isArray(value) ? value : value ? [value] : [];
+    return Array.from(new Set(values
+      .flatMap(tag => tag.split(','))
+      .map(tag => tag.trim().toLowerCase())
+      .filter(Boolean)));
+  }
+
+  /**
+   * A folder matches itself and everything below it; "/" matches projects
+   * that are in no folder
+   */
+  private folderCondition(folder: string): Record<string, any> {
+    const path = folder.split('/').map(segment => segment.trim()).filter(Boolean).join('/');
+    if (!path) {
+      return { folder: null };
+    }
+    return { folder: { $regex: new RegExp(`^${escapeRegex(path)}(/|$)`) } };
+  }
+
+  /**
+   * The connectionStatus virtual expressed as a query: a current health
+   * check decides, otherwise the age of the last schema sync
+   */
+  private statusCondition(status: ProjectConnectionStatus): Record<string, any> {
+    const now = Date.now();
+    const staleAfter = CONSTANTS.HEALTH_CHECK.INTERVAL * CONSTANTS.HEALTH_CHECK.STALE_AFTER_INTERVALS;
+    const currentSince = new Date(now - staleAfter);
+    const connectedSince = new Date(now - CONSTANTS.HEALTH_CHECK.SYNC_CONNECTED_WINDOW);
+
+    const current = { 'health.checkedAt': { $gt: currentSince } };
+    const notCurrent = { 'health.checkedAt': { $not: { $gt: currentSince } } };
+
+    switch (status) {
+      case 'connected':
+        return {
+          $or: [
+            { ...current, 'health.status': 'up' },
+            { ...notCurrent, 'schemaCache.lastSynced': { $gt: connectedSince } }
+          ]
+        };
+      case 'idle':
+        return { ...notCurrent, 'schemaCache.lastSynced': { $lte: connectedSince } };
+      case 'disconnected':
+        return {
+          $or: [
+            { ...current, 'health.status': 'down' },
+            { ...notCurrent, 'schemaCache.lastSynced': null }
+          ]
+        };
+    }
+  }
+}
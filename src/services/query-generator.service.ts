@@ -1,5 +1,6 @@
 export interface QueryIntent {
   type: 'count' | 'find' | 'aggregate' | 'schema' | 'relationship' | 'general';
+  database?: string;
   collection?: string;
   collections?: string[];
   filters?: Record<string, any>;
@@ -12,6 +13,7 @@ export interface QueryIntent {
 
 export interface GeneratedQuery {
   type: 'count' | 'find' | 'aggregate';
+  database?: string;
   collection: string;
   query: any;
   pipeline?: any[];
@@ -20,11 +22,39 @@ export interface GeneratedQuery {
   validationErrors: string[];
 }
 
+/** A cached collection with the name it goes by in prompts and messages */
+export interface NamespacedCollection {
+  database?: string;
+  name: string;
+  label: string;
+  schema: any;
+}
+
 /**
  * QueryGenerator Service
  * Converts user intent and schema information into safe MongoDB queries
  */
 export class QueryGeneratorService {
+  /**
+   * Collections in the schema cache, labelled "db.collection" when they
+   * span more than one database and by their bare name otherwise
+   */
+  listCollections(schemaCache: any): NamespacedCollection[] {
+    const collections = schemaCache?.collections || [];
+    const primary = schemaCache?.databaseName;
+    const databases = new Set(collections.map((c: any) => c.database || primary));
+
+    return collections.map((c: any) => {
+      const database = c.database || primary;
+      return {
+        database,
+        name: c.name,
+        label: databases.size > 1 ? `${database}.${c.name}` : c.name,
+        schema: c
+      };
+    });
+  }
+
   /**
    * Parse user message to extract query intent
    */
@@ -33,8 +63,6 @@ export class QueryGeneratorService {
     schemaCache: any
   ): QueryIntent {
     const lowerMessage = message.toLowerCase();
-    const collections = schemaCache?.collections || [];
-    const collectionNames = collections.map((c: any) => c.name.toLowerCase());
 
     // Detect query type
     let type: QueryIntent['type'] = 'general';
@@ -53,23 +81,14 @@ export class QueryGeneratorService {
     }
 
     // Extract mentioned collections
-    const mentionedCollections: string[] = [];
-    collectionNames.forEach((colName: string) => {
-      if (lowerMessage.includes(colName)) {
-        const originalCollection = collections.find(
-          (c: any) => c.name.toLowerCase() === colName
-        );
-        if (originalCollection) {
-          mentionedCollections.push(originalCollection.name);
-        }
-      }
-    });
+    const mentioned = this.findMentionedCollections(lowerMessage, schemaCache);
+    const mentionedCollections = mentioned.map(c => c.label);
 
     // Extract filters and conditions
     const filters = this.extractFilters(message, mentionedCollections, schemaCache);
 
     // Extract fields
-    const fields = this.extractFields(message, mentionedCollections, schemaCache);
+    const fields = this.extractFields(message, mentioned[0]?.schema);
 
     // Extract limit
     const limit = this.extractLimit(message);
@@ -79,7 +98,8 @@ export class QueryGeneratorService {
 
     return {
       type,
-      collection: mentionedCollections[0],
+      database: mentioned[0]?.database,
+      collection: mentioned[0]?.name,
       collections: mentionedCollections,
       filters,
       fields,
@@ -110,13 +130,16 @@ export class QueryGeneratorService {
       };
     }
 
-    const collections = schemaCache?.collections || [];
-    const collection = collections.find((c: any) => c.name === intent.collection);
+    const namespaced = this.listCollections(schemaCache).find(c =>
+      c.name === intent.collection && (!intent.database || c.database === intent.database)
+    );
+    const collection = namespaced?.schema;
 
     if (!collection) {
       validationErrors.push(`Collection '${intent.collection}' not found in schema`);
       return {
         type: 'find',
+        database: intent.database,
         collection: intent.collection,
         query: {},
         isValid: false,
@@ -144,6 +167,8 @@ export class QueryGeneratorService {
         generatedQuery = this.generateFindQuery(intent, collection);
     }
 
+    generatedQuery.database = namespaced!.database;
+
     // Validate the generated query
     const queryValidation = this.validateQuery(generatedQuery, collection);
     generatedQuery.isValid = queryValidation.isValid;
@@ -293,22 +318,36 @@ export class QueryGeneratorService {
     return filters;
   }
 
+  /**
+   * Collections named in a message. A qualified "db.collection" wins; a
+   * bare name found in several databases resolves to the primary database.
+   */
+  private findMentionedCollections(lowerMessage: string, schemaCache: any): NamespacedCollection[] {
+    const collections = this.listCollections(schemaCache);
+    const primary = schemaCache?.databaseName;
+
+    const qualified = collections.filter(c =>
+      c.label !== c.name && lowerMessage.includes(c.label.toLowerCase())
+    );
+
+    const bare = collections
+      .filter(c => !qualified.includes(c) && lowerMessage.includes(c.name.toLowerCase()))
+      .filter(c => !qualified.some(q => q.name === c.name))
+      .sort((a, b) => Number(b.database === primary) - Number(a.database === primary))
+      .filter((c, i, all) => all.findIndex(other => other.name === c.name) === i);
+
+    return collections.filter(c => qualified.includes(c) || bare.includes(c));
+  }
+
   /**
    * Extract fields from message
    */
   private extractFields(
     message: string,
-    collections: string[],
-    schemaCache: any
+    collectionSchema: any
   ): string[] {
     const fields: string[] = [];
 
-    if (!collections.length) return fields;
-
-    const collectionSchema = schemaCache?.collections?.find(
-      (c: any) => c.name === collections[0]
-    );
-
     if (!collectionSchema) return fields;
 
     const fieldNames = collectionSchema.fields?.map((f: any) => f.name) || [];
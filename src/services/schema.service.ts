@@ -1,8 +1,10 @@
 import { MongoDBService } from './mongodb.service';
 import { CacheService } from './cache.service';
 import { 
+  MongoConnectionOptions,
   SchemaExtraction, 
   CollectionSchema, 
+  DatabaseSchemaStats,
   FieldSchema, 
   Relationship 
 } from '../types';
@@ -11,6 +13,12 @@ import { REGEX_PATTERNS, CONSTANTS } from '../utils/constants';
 
 const log = createStructuredLogger('SchemaService');
 
+// Relationship detection only reads names and field types, so the copy
+// cached on a project works as well as a fresh extraction
+type RelationshipSource = Pick<CollectionSchema, 'database' | 'name'> & {
+  fields: Array<Pick<FieldSchema, 'name' | 'type' | 'isArray'>>;
+};
+
 export class SchemaService {
   private cacheService: CacheService;
 
@@ -18,23 +26,29 @@ export class SchemaService {
     this.cacheService = new CacheService();
   }
 
+  /**
+   * Schema of every database in `databases`, or of the database in the
+   * connection string when none are given
+   */
   async extractAndCacheSchema(
     projectId: string,
     connectionString: string,
-    persistToDb: boolean = true
+    persistToDb: boolean = true,
+    connectionOptions: MongoConnectionOptions = {},
+    databases: string[] = []
   ): Promise<SchemaExtraction | null> {
     const cacheKey = `schema:${projectId}`;
     
     try {
-      // Check cache first
+      // Check cache first; a schema cached for another set of databases does not count
       const cached = await this.cacheService.get<SchemaExtraction>(cacheKey);
-      if (cached) {
+      if (cached && this.coversDatabases(cached, databases)) {
         log.debug(`Schema found in cache for project ${projectId}`);
         return cached;
       }
 
       // Extract fresh schema
-      const schema = await this.extractSchema(connectionString);
+      const schema = await this.extractSchema(connectionString, connectionOptions, databases);
       
       // Cache the result
       await this.cacheService.set(cacheKey, schema, CONSTANTS.CACHE.SCHEMA_TTL);
@@ -78,11 +92,23 @@ export class SchemaService {
     }
   }
 
-  private async extractSchema(connectionString: string): Promise<SchemaExtraction> {
+  private coversDatabases(schema: SchemaExtraction, databases: string[]): boolean {
+    if (databases.length === 0) {
+      return true;
+    }
+    const cached = (schema.databases || []).map(database => database.name);
+    return cached.length === databases.length && databases.every(name => cached.includes(name));
+  }
+
+  private async extractSchema(
+    connectionString: string,
+    connectionOptions: MongoConnectionOptions,
+    databases: string[]
+  ): Promise<SchemaExtraction> {
     const startTime = Date.now();
     log.section('EXTRACTING DATABASE SCHEMA');
     
-    const mongoService = new MongoDBService(connectionString);
+    const mongoService = new MongoDBService(connectionString, connectionOptions);
     
     try {
       log.step(1, 4, 'Connecting to MongoDB');
@@ -90,27 +116,38 @@ export class SchemaService {
       log.success('Connected successfully');
       
       log.step(2, 4, 'Listing collections');
-      const dbName = this.extractDatabaseName(connectionString);
-      const collectionNames = await mongoService.listCollections(dbName);
-      log.success(`Found ${collectionNames.length} collections`, { collections: collectionNames });
+      const dbNames = databases.length > 0 ? databases : [this.extractDatabaseName(connectionString)];
+      const collectionNames = new Map<string, string[]>();
+      for (const dbName of dbNames) {
+        collectionNames.set(dbName, await mongoService.listCollections(dbName));
+        log.success(`Found ${collectionNames.get(dbName)!.length} collections in ${dbName}`, {
+          collections: collectionNames.get(dbName)
+        });
+      }
       
       log.step(3, 4, 'Analyzing collections');
       const collections: CollectionSchema[] = [];
+      const databaseStats: DatabaseSchemaStats[] = [];
       let totalDocuments = 0;
       
-      for (let i = 0; i < collectionNames.length; i++) {
-        const collectionName = collectionNames[i];
-        log.debug(`Analyzing collection [${i + 1}/${collectionNames.length}]: ${collectionName}`);
-        const collectionSchema = await this.analyzeCollection(
-          mongoService,
-          dbName,
-          collectionName
-        );
-        collections.push(collectionSchema);
-        totalDocuments += collectionSchema.documentCount;
-        log.debug(`  └─ Fields: ${collectionSchema.fields.length}, Documents: ${collectionSchema.documentCount}`);
+      for (const [dbName, names] of collectionNames) {
+        let databaseDocuments = 0;
+        for (let i = 0; i < names.length; i++) {
+          const collectionName = names[i];
+          log.debug(`Analyzing collection [${i + 1}/${names.length}]: ${dbName}.${collectionName}`);
+          const collectionSchema = await this.analyzeCollection(
+            mongoService,
+            dbName,
+            collectionName
+          );
+          collections.push(collectionSchema);
+          databaseDocuments += collectionSchema.documentCount;
+          log.debug(`  └─ Fields: ${collectionSchema.fields.length}, Documents: ${collectionSchema.documentCount}`);
+        }
+        databaseStats.push({ name: dbName, totalCollections: names.length, totalDocuments: databaseDocuments });
+        totalDocuments += databaseDocuments;
       }
-      log.success(`Analyzed ${collections.length} collections`);
+      log.success(`Analyzed ${collections.length} collections across ${dbNames.length} database(s)`);
       
       log.step(4, 4, 'Detecting relationships');
       const relationships = this.detectRelationships(collections);
@@ -123,6 +160,7 @@ export class SchemaService {
       log.separator();
       
       return {
+        databases: databaseStats,
         collections,
         relationships,
         stats: {
@@ -156,6 +194,7 @@ export class SchemaService {
     const sampleDocument = samples[0] || null;
 
     return {
+      database: databaseName,
       name: collectionName,
       fields,
       indexes,
@@ -260,7 +299,22 @@ export class SchemaService {
     return typeof value;
   }
 
-  public detectRelationships(collections: CollectionSchema[]): Relationship[] {
+  /**
+   * References between collections, looked for within each database
+   */
+  public detectRelationships(collections: RelationshipSource[]): Relationship[] {
+    const byDatabase = new Map<string | undefined, RelationshipSource[]>();
+    for (const collection of collections) {
+      byDatabase.set(collection.database, [...(byDatabase.get(collection.database) || []), collection]);
+    }
+
+    return Array.from(byDatabase, ([database, databaseCollections]) =>
+      this.detectRelationshipsInDatabase(databaseCollections)
+        .map(relationship => database ? { database, ...relationship } : relationship)
+    ).flat();
+  }
+
+  private detectRelationshipsInDatabase(collections: RelationshipSource[]): Relationship[] {
     const relationships: Relationship[] = [];
     const collectionNames = new Set(collections.map(c => c.name));
 
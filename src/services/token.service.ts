@@ -0,0 +1,212 @@
+import jwt from 'jsonwebtoken';
+import CryptoJS from 'crypto-js';
+import { RefreshToken } from '../models/RefreshToken';
+import { Session } from '../models/Session';
+import { User } from '../models/User';
+import { IUser, ISession, RefreshTokenPayload } from '../types';
+import { AuthenticationError } from '../utils/errors';
+import { createStructuredLogger } from '../utils/logger';
+
+const log = createStructuredLogger('TokenService');
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface SessionMetadata {
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Token Service
+ * Issues access/refresh token pairs bound to a login session. Refresh tokens
+ * rotate on every use; presenting a consumed token again is treated as theft
+ * and revokes the session it belongs to.
+ */
+export class TokenService {
+  /**
+   * Open a new session for a successful login and issue its first pair
+   */
+  async createSession(user: IUser, metadata: SessionMetadata = {}): Promise<TokenPair> {
+    const session = await Session.create({
+      userId: user._id,
+      deviceName: metadata.deviceName || this.describeDevice(metadata.userAgent),
+      userAgent: metadata.userAgent || null,
+      ipAddress: metadata.ipAddress || null
+    });
+
+    return this.issueTokens(user, session);
+  }
+
+  /**
+   * Issue a new pair for an existing session, superseding its previous refresh token
+   */
+  private async issueTokens(user: IUser, session: ISession): Promise<TokenPair> {
+    const sessionId = session._id.toString();
+
+    // Only the newest refresh token of a session may be redeemed
+    await RefreshToken.updateMany(
+      { sessionId, usedAt: null },
+      { $set: { usedAt: new Date() } }
+    );
+
+    const tokenId = this.generateId();
+    const accessToken = user.generateAccessToken(sessionId);
+    const refreshToken = user.generateRefreshToken(sessionId, tokenId);
+
+    const { exp } = jwt.decode(refreshToken) as { exp: number };
+    const expiresAt = new Date(exp * 1000);
+
+    await RefreshToken.create({
+      userId: user._id,
+      sessionId,
+      tokenHash: this.hashToken(refreshToken),
+      expiresAt
+    });
+
+    session.lastActiveAt = new Date();
+    session.expiresAt = expiresAt;
+    await session.save();
+
+    return { accessToken, refreshToken };
+  }
+
+  /**
+   * Redeem a refresh token for a new pair in the same session
+   */
+  async rotateRefreshToken(refreshToken: string, metadata: SessionMetadata = {}): Promise<TokenPair> {
+    const decoded = jwt.verify(
+      refreshToken,
+      process.env.JWT_REFRESH_SECRET!
+    ) as RefreshTokenPayload;
+
+    if (!decoded.sessionId || !decoded.tokenId) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    const stored = await RefreshToken.findOne({
+      tokenHash: this.hashToken(refreshToken)
+    });
+
+    if (!stored || stored.sessionId.toString() !== decoded.sessionId) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    const session = await Session.findById(decoded.sessionId);
+    if (!session || !session.isActive()) {
+      throw new AuthenticationError('Session has been revoked');
+    }
+
+    // Claim atomically so two concurrent refreshes cannot both succeed
+    const claimed = stored.usedAt
+      ? null
+      : await RefreshToken.findOneAndUpdate(
+        { _id: stored._id, usedAt: null },
+        { $set: { usedAt: new Date() } }
+      );
+
+    if (!claimed) {
+      log.warn('Refresh token reuse detected, revoking session', {
+        userId: decoded.userId,
+        sessionId: decoded.sessionId
+      });
+      await this.revokeSession(decoded.sessionId, 'reuse-detected');
+      throw new AuthenticationError('Refresh token reuse detected');
+    }
+
+    const user = await User.findById(decoded.userId);
+    if (!user) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    if (metadata.ipAddress) session.ipAddress = metadata.ipAddress;
+    if (metadata.userAgent) session.userAgent = metadata.userAgent;
+
+    return this.issueTokens(user, session);
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to. Expired tokens are accepted
+   * so a client can always sign out.
+   */
+  async revokeByRefreshToken(refreshToken: string): Promise<void> {
+    const decoded = jwt.verify(
+      refreshToken,
+      process.env.JWT_REFRESH_SECRET!,
+      { ignoreExpiration: true }
+    ) as RefreshTokenPayload;
+
+    if (!decoded.sessionId) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    await this.revokeSession(decoded.sessionId, 'logout');
+  }
+
+  async revokeSession(sessionId: string, reason: string): Promise<void> {
+    await Session.updateOne(
+      { _id: sessionId, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+  }
+
+  /**
+   * Revoke every session of a user, optionally sparing one (usually the caller's)
+   */
+  async revokeAllForUser(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+    const result = await Session.updateMany(
+      {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { _id: { $ne: exceptSessionId } })
+      },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Whether access tokens issued for this session may still be used
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const session = await Session.findById(sessionId).select('revokedAt expiresAt');
+    return !!session && session.isActive();
+  }
+
+  private describeDevice(userAgent?: string): string {
+    if (!userAgent) return 'Unknown device';
+
+    const browsers: Array<[RegExp, string]> = [
+      [/Edg\//, 'Edge'],
+      [/Chrome\//, 'Chrome'],
+      [/Firefox\//, 'Firefox'],
+      [/Safari\//, 'Safari'],
+      [/curl\//, 'curl'],
+      [/node|axios|python|Go-http-client/i, 'API client']
+    ];
+    const platforms: Array<[RegExp, string]> = [
+      [/Windows/, 'Windows'],
+      [/iPhone|iPad/, 'iOS'],
+      [/Mac OS X/, 'macOS'],
+      [/Android/, 'Android'],
+      [/Linux/, 'Linux']
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = platforms.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && platform) return `${browser} on ${platform}`;
+    return browser || platform || 'Unknown device';
+  }
+
+  private generateId(): string {
+    return CryptoJS.lib.WordArray.random(16).toString();
+  }
+
+  private hashToken(token: string): string {
+    return CryptoJS.SHA256(token).toString();
+  }
+}
@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import { EncryptionService } from './encryption.service';
+import { CONSTANTS } from '../utils/constants';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface RecoveryCodeSet {
+  codes: string[];
+  hashes: string[];
+}
+
+/**
+ * TwoFactor Service
+ * RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30s steps)
+ * plus single-use recovery codes. Secrets are stored encrypted, recovery
+ * codes only as hashes.
+ */
+export class TwoFactorService {
+  private encryptionService: EncryptionService;
+
+  constructor() {
+    this.encryptionService = new EncryptionService();
+  }
+
+  /**
+   * Generate a new base32 secret (160 bits, as recommended for SHA1)
+   */
+  generateSecret(): string {
+    return this.base32Encode(crypto.randomBytes(20));
+  }
+
+  encryptSecret(secret: string): string {
+    return this.encryptionService.encrypt(secret);
+  }
+
+  decryptSecret(encryptedSecret: string): string {
+    return this.encryptionService.decrypt(encryptedSecret);
+  }
+
+  /**
+   * Build the otpauth:// URI that authenticator apps read from a QR code
+   */
+  buildOtpAuthUri(secret: string, accountName: string): string {
+    const issuer = CONSTANTS.TWO_FACTOR.ISSUER;
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: String(CONSTANTS.TWO_FACTOR.DIGITS),
+      period: String(CONSTANTS.TWO_FACTOR.PERIOD)
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * Verify a code against the current time step, allowing a small clock drift.
+   * Returns the matched time step so callers can reject replays, or null.
+   */
+  verifyCode(secret: string, code: string, lastUsedStep?: number): number | null {
+    if (!/^\d+$/.test(code) || code.length !== CONSTANTS.TWO_FACTOR.DIGITS) {
+      return null;
+    }
+
+    const key = this.base32Decode(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / CONSTANTS.TWO_FACTOR.PERIOD);
+    const window = CONSTANTS.TWO_FACTOR.DRIFT_WINDOW;
+
+    for (let offset = -window; offset <= window; offset++) {
+      const step = currentStep + offset;
+      if (lastUsedStep !== undefined && step <= lastUsedStep) {
+        continue;
+      }
+
+      const expected = this.generateCode(key, step);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Generate a fresh set of recovery codes; only the hashes should be stored
+   */
+  generateRecoveryCodes(): RecoveryCodeSet {
+    const codes: string[] = [];
+
+    for (let i = 0; i < CONSTANTS.TWO_FACTOR.RECOVERY_CODE_COUNT; i++) {
+      const raw = crypto.randomBytes(5).toString('hex');
+      codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+    }
+
+    return {
+      codes,
+      hashes: codes.map(code => this.hashRecoveryCode(code))
+    };
+  }
+
+  /**
+   * Find a recovery code among stored hashes. Returns the remaining hashes
+   * with the redeemed one removed, or null if the code does not match.
+   */
+  redeemRecoveryCode(hashes: string[], code: string): string[] | null {
+    const hash = this.hashRecoveryCode(code);
+    const index = hashes.indexOf(hash);
+
+    if (index === -1) {
+      return null;
+    }
+
+    return hashes.filter((_, i) => i !== index);
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return this.encryptionService.hash(code.trim().toLowerCase().replace(/\s/g, ''));
+  }
+
+  private generateCode(key: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+      ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3];
+
+    const digits = CONSTANTS.TWO_FACTOR.DIGITS;
+    return (binary % 10 ** digits).toString().padStart(digits, '0');
+  }
+
+  private base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+      value &= (1 << bits) - 1;
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 character in secret');
+      }
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+      value &= (1 << bits) - 1;
+    }
+
+    return Buffer.from(bytes);
+  }
+}
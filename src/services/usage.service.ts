@@ -0,0 +1,180 @@
+import mongoose from 'mongoose';
+import { UsageRecord } from '../models/UsageRecord';
+import { User } from '../models/User';
+import { ServiceAccount } from '../models/ServiceAccount';
+import { Project } from '../models/Project';
+import { CONSTANTS } from '../utils/constants';
+import { createStructuredLogger } from '../utils/logger';
+
+const log = createStructuredLogger('UsageService');
+
+/** Who an LLM call is billed to */
+export interface UsageContext {
+  organizationId: string;
+  projectId?: string;
+  userId?: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean;
+}
+
+export type UsageGroup = 'member' | 'project' | 'model' | 'day';
+
+const GROUP_KEYS: Record<UsageGroup, any> = {
+  member: '$userId',
+  project: '$projectId',
+  model: '$aiModel',
+  day: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } }
+};
+
+/**
+ * Usage Service
+ * Token accounting for every LLM call and the reports built from it
+ */
+export class UsageService {
+  /**
+   * Approximate token count for providers that report no usage
+   */
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / CONSTANTS.AI_USAGE.CHARS_PER_TOKEN);
+  }
+
+  estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+    const pricing = CONSTANTS.AI_PRICING[model];
+    if (!pricing) {
+      return 0;
+    }
+    return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+  }
+
+  /**
+   * Store one LLM call. Accounting never fails the call it describes.
+   */
+  async record(context: UsageContext, model: string, operation: string, usage: TokenUsage): Promise<void> {
+    try {
+      await UsageRecord.create({
+        organizationId: context.organizationId,
+        projectId: context.projectId || null,
+        userId: context.userId || null,
+        aiModel: model,
+        operation,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        totalTokens: usage.totalTokens,
+        estimatedCost: this.estimateCost(model, usage.promptTokens, usage.completionTokens),
+        estimated: usage.estimated
+      });
+    } catch (error) {
+      log.error(`Failed to record AI usage for organization ${context.organizationId}`, error);
+    }
+  }
+
+  async countRequests(organizationId: string, since: Date): Promise<number> {
+    return UsageRecord.countDocuments({ organizationId, createdAt: { $gte: since } });
+  }
+
+  /**
+   * Tokens and cost spent since a date, by the whole organization or by one member
+   */
+  async totals(organizationId: string, since: Date, userId?: string): Promise<{ totalTokens: number; estimatedCost: number }> {
+    const [row] = await UsageRecord.aggregate([
+      {
+        $match: {
+          organizationId: new mongoose.Types.ObjectId(organizationId),
+          ...(userId && { userId: new mongoose.Types.ObjectId(userId) }),
+          createdAt: { $gte: since }
+        }
+      },
+      {
+        $group: {
+          _id: null,
+          totalTokens: { $sum: '$totalTokens' },
+          estimatedCost: { $sum: '$estimatedCost' }
+        }
+      }
+    ]);
+
+    return {
+      totalTokens: row?.totalTokens || 0,
+      estimatedCost: row?.estimatedCost || 0
+    };
+  }
+
+  /**
+   * Usage in the organization between two dates, broken down by member,
+   * project, model or day
+   */
+  async report(organizationId: string, groupBy: UsageGroup, from: Date, to: Date) {
+    const rows = await UsageRecord.aggregate([
+      {
+        $match: {
+          organizationId: new mongoose.Types.ObjectId(organizationId),
+          createdAt: { $gte: from, $lte: to }
+        }
+      },
+      {
+        $group: {
+          _id: GROUP_KEYS[groupBy],
+          requests: { $sum: 1 },
+          promptTokens: { $sum: '$promptTokens' },
+          completionTokens: { $sum: '$completionTokens' },
+          totalTokens: { $sum: '$totalTokens' },
+          estimatedCost: { $sum: '$estimatedCost' },
+          estimatedRequests: { $sum: { $cond: ['$estimated', 1, 0] } }
+        }
+      },
+      { $sort: groupBy === 'day' ? { _id: 1 } : { totalTokens: -1 } }
+    ]);
+
+    const labels = await this.resolveLabels(groupBy, rows.map(row => row._id).filter(Boolean));
+
+    const breakdown = rows.map(row => ({
+      key: row._id ? row._id.toString() : null,
+      label: row._id ? labels.get(row._id.toString()) || row._id.toString() : 'Unattributed',
+      requests: row.requests,
+      promptTokens: row.promptTokens,
+      completionTokens: row.completionTokens,
+      totalTokens: row.totalTokens,
+      estimatedCost: Number(row.estimatedCost.toFixed(6)),
+      estimatedRequests: row.estimatedRequests
+    }));
+
+    const totals = breakdown.reduce((sum, row) => ({
+      requests: sum.requests + row.requests,
+      promptTokens: sum.promptTokens + row.promptTokens,
+      completionTokens: sum.completionTokens + row.completionTokens,
+      totalTokens: sum.totalTokens + row.totalTokens,
+      estimatedCost: Number((sum.estimatedCost + row.estimatedCost).toFixed(6))
+    }), { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCost: 0 });
+
+    return { groupBy, from, to, totals, breakdown };
+  }
+
+  /**
+   * Display names for member and project keys. Keys of deleted users and
+   * projects fall back to their id.
+   */
+  private async resolveLabels(groupBy: UsageGroup, ids: any[]): Promise<Map<string, string>> {
+    const labels = new Map<string, string>();
+
+    if (groupBy === 'member') {
+      const [users, serviceAccounts] = await Promise.all([
+        User.find({ _id: { $in: ids } }).select('name email'),
+        ServiceAccount.find({ _id: { $in: ids } }).select('name')
+      ]);
+      users.forEach(user => labels.set(user._id.toString(), `${user.name} <${user.email}>`));
+      serviceAccounts.forEach(account => labels.set(account._id.toString(), `${account.name} (service account)`));
+    }
+
+    if (groupBy === 'project') {
+      const projects = await Project.find({ _id: { $in: ids } }).select('name');
+      projects.forEach(project => labels.set(project._id.toString(), project.name));
+    }
+
+    return labels;
+  }
+}
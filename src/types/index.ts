@@ -6,40 +6,218 @@ export interface IUser extends Document {
   password: string;
   name: string;
   profileImage?: string;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
+  emailVerification?: {
+    tokenHash?: string;
+    expiresAt?: Date;
+    lastSentAt?: Date;
+  };
   organizations: string[];
+  twoFactor: {
+    enabled: boolean;
+    secret?: string;
+    pendingSecret?: string;
+    recoveryCodes?: string[];
+    lastUsedStep?: number;
+    enabledAt?: Date;
+  };
+  passwordReset?: {
+    tokenHash?: string;
+    expiresAt?: Date;
+  };
+  loginSecurity?: {
+    failedAttempts: number;
+    lastFailedAt?: Date;
+    nextAttemptAt?: Date;
+    lockedUntil?: Date;
+  };
+  ssoIdentities: Array<{
+    issuer: string;
+    subject: string;
+    organizationId: string;
+    lastLoginAt: Date;
+  }>;
   createdAt: Date;
   lastLogin: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
-  generateAccessToken(): string;
-  generateRefreshToken(): string;
+  generateAccessToken(sessionId: string): string;
+  generateRefreshToken(sessionId: string, tokenId: string): string;
+}
+
+export interface ISession extends Document {
+  userId: string;
+  deviceName: string;
+  userAgent?: string;
+  ipAddress?: string;
+  lastActiveAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+  createdAt: Date;
+  isActive(): boolean;
+}
+
+export interface IRefreshToken extends Document {
+  userId: string;
+  sessionId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+export interface IInvitation extends Document {
+  organizationId: string;
+  email: string;
+  role: MemberRole;
+  tokenHash: string;
+  invitedBy: string;
+  userId?: string;
+  status: InvitationStatus;
+  expiresAt: Date;
+  lastSentAt: Date;
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  isPending(): boolean;
+}
+
+export interface ISsoLoginState extends Document {
+  state: string;
+  organizationId: string;
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+  linkUserId?: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface SsoRoleMapping {
+  group: string;
+  role: MemberRole;
+}
+
+export interface SsoSettings {
+  enabled: boolean;
+  enforced: boolean;
+  issuer?: string;
+  clientId?: string;
+  clientSecret?: string;
+  scopes?: string;
+  groupsClaim?: string;
+  roleMappings: SsoRoleMapping[];
+  defaultRole?: MemberRole | null;
 }
 
+export interface AiBudgetSettings {
+  monthlyTokens?: number | null;
+  monthlyCost?: number | null;
+  memberMonthlyTokens?: number | null;
+  memberMonthlyCost?: number | null;
+  warningThresholds?: number[];
+}
+
+export type PlanName = 'free' | 'pro' | 'enterprise';
+
+export type QuotaName = 'projects' | 'members' | 'aiMessages';
+
+export type FeatureName = 'streaming' | 'export';
+
 export interface IOrganization extends Document {
   name: string;
   owner: string;
   members: Array<{
     userId: string;
     role: 'admin' | 'editor' | 'viewer';
+    customRoleId?: string | null;
     joinedAt: Date;
   }>;
   settings: {
+    plan?: PlanName;
     allowedDomains?: string[];
     maxProjects?: number;
     features?: string[];
+    requireTwoFactor?: boolean;
+    requireVerifiedEmail?: boolean;
+    sso?: SsoSettings;
+    verifiedDomains?: Array<{
+      domain: string;
+      verificationToken: string;
+      verifiedAt?: Date;
+      createdAt: Date;
+    }>;
+    autoJoin?: {
+      enabled: boolean;
+      defaultRole: MemberRole;
+    };
+    aiBudget?: AiBudgetSettings;
+  };
+  budgetAlerts?: {
+    period: string;
+    sent: string[];
+  };
+  deletion?: {
+    requestedAt: Date;
+    requestedBy: string;
+    scheduledFor: Date;
+    purgeStartedAt?: Date;
   };
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type MongoAuthMechanism = 'SCRAM-SHA-1' | 'SCRAM-SHA-256' | 'MONGODB-X509';
+
+export type MongoReadPreference = 'primary' | 'primaryPreferred' | 'secondary' | 'secondaryPreferred' | 'nearest';
+
+/**
+ * Structured MongoClient settings that cannot live in the URI. Certificates
+ * and keys are PEM encoded.
+ */
+export interface MongoConnectionOptions {
+  caCertificate?: string;
+  clientCertificate?: string;
+  clientKey?: string;
+  clientKeyPassphrase?: string;
+  authMechanism?: MongoAuthMechanism;
+  authSource?: string;
+  readPreference?: MongoReadPreference;
+  appName?: string;
+}
+
+export type HealthStatus = 'up' | 'down';
+
+/** Archived projects are kept until restored; deleted ones wait in the trash until purgeAt */
+export type ProjectState = 'active' | 'archived' | 'deleted';
+
+export type ProjectConnectionStatus = 'connected' | 'idle' | 'disconnected';
+
 export interface IProject extends Document {
   name: string;
   organizationId: string;
   mongoUri: string;
   encryptedApiKey?: string;
+  connectionOptions?: MongoConnectionOptions;
   databaseName: string;
+  /** Every database the project includes, primary first; empty on projects that only use databaseName */
+  databases: string[];
+  /** Result of the latest scheduled ping; since is when the status last changed */
+  health?: {
+    status: HealthStatus;
+    checkedAt: Date;
+    since: Date;
+    latencyMs?: number | null;
+    error?: string | null;
+  };
   schemaCache?: {
     databaseName?: string;
+    databases?: DatabaseSchemaStats[];
     collections: Array<{
+      database?: string;
       name: string;
       fields: Array<{
         name: string;
@@ -51,19 +229,38 @@ export interface IProject extends Document {
       documentCount: number;
     }>;
     relationships: Array<{
+      database?: string;
       from: string;
       to: string;
       type: 'one-to-one' | 'one-to-many' | 'many-to-many';
       field: string;
     }>;
+    stats?: {
+      totalCollections: number;
+      totalDocuments: number;
+      averageFieldCount: number;
+    };
     lastSynced: Date;
   };
+  /** Lowercase labels, unique per project */
+  tags: string[];
+  /** Slash-separated folder path such as "analytics/reporting"; null when unfiled */
+  folder: string | null;
   createdBy: string;
+  visibility: ProjectVisibility;
+  teamIds: string[];
+  state: ProjectState;
+  archivedAt?: Date | null;
+  deletedAt?: Date | null;
+  purgeAt?: Date | null;
   lastAccessed: Date;
   createdAt: Date;
   updatedAt: Date;
+  readonly connectionStatus: ProjectConnectionStatus;
   getDecryptedUri(): string;
   getDecryptedApiKey(): string | null;
+  getConnectionOptions(): MongoConnectionOptions;
+  getDatabases(): string[];
   updateLastAccessed(): Promise<void>;
   updateSchemaCache(schema: any): Promise<void>;
   needsSchemaRefresh(): boolean;
@@ -84,11 +281,145 @@ export interface IChatHistory extends Document {
   createdAt: Date;
 }
 
+export type MemberRole = 'admin' | 'editor' | 'viewer';
+
+export type Permission =
+  | 'organization.manage'
+  | 'members.invite'
+  | 'members.manage'
+  | 'roles.manage'
+  | 'teams.manage'
+  | 'service_accounts.manage'
+  | 'project.create'
+  | 'project.update'
+  | 'project.delete'
+  | 'project.manage_access'
+  | 'project.export'
+  | 'project.view_all'
+  | 'schema.refresh'
+  | 'chat.use'
+  | 'query.raw'
+  | 'activity.view'
+  | 'usage.view';
+
+export interface IRole extends Document {
+  organizationId: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** 'organization' projects are open to every member, 'teams' projects only to the listed teams and admins */
+export type ProjectVisibility = 'organization' | 'teams';
+
+export interface ITeam extends Document {
+  organizationId: string;
+  name: string;
+  description?: string;
+  members: string[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ActivityChange {
+  field: string;
+  from?: any;
+  to?: any;
+}
+
+export interface IActivityEvent extends Document {
+  organizationId: string;
+  actor: {
+    type: 'user' | 'service_account';
+    id: string;
+    label: string;
+    apiTokenId?: string;
+  };
+  action: string;
+  target: {
+    type: string;
+    id?: string;
+    name?: string;
+  };
+  changes: ActivityChange[];
+  metadata?: Record<string, any>;
+  ipAddress?: string;
+  createdAt: Date;
+}
+
+export interface IUsageRecord extends Document {
+  organizationId: string;
+  projectId?: string;
+  userId?: string;
+  aiModel: string;
+  operation: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+  /** true when token counts were approximated rather than reported */
+  estimated: boolean;
+  createdAt: Date;
+}
+
+export interface IProjectHealthCheck extends Document {
+  projectId: string;
+  organizationId: string;
+  status: HealthStatus;
+  latencyMs?: number | null;
+  error?: string | null;
+  checkedAt: Date;
+}
+
+export interface IServiceAccount extends Document {
+  organizationId: string;
+  name: string;
+  description?: string;
+  role: MemberRole;
+  createdBy: string;
+  disabledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IApiToken extends Document {
+  name: string;
+  type: 'personal' | 'service';
+  tokenHash: string;
+  tokenPrefix: string;
+  organizationId: string;
+  userId?: string;
+  serviceAccountId?: string;
+  role: MemberRole;
+  projectIds: string[];
+  expiresAt: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date;
+  createdBy: string;
+  createdAt: Date;
+  isActive(): boolean;
+}
+
 export interface AuthRequest extends Request {
   user?: {
     userId: string;
     email: string;
     organizationId?: string;
+    role?: MemberRole;
+    permissions?: Permission[];
+    sessionId?: string;
+    apiToken?: {
+      id: string;
+      type: 'personal' | 'service';
+      role: MemberRole;
+      projectIds: string[];
+      serviceAccountId?: string;
+    };
   };
 }
 
@@ -96,6 +427,13 @@ export interface TokenPayload {
   userId: string;
   email: string;
   organizationId?: string;
+  sessionId?: string;
+}
+
+export interface RefreshTokenPayload {
+  userId: string;
+  sessionId: string;
+  tokenId: string;
 }
 
 export interface PaginationQuery {
@@ -105,6 +443,15 @@ export interface PaginationQuery {
   order?: 'asc' | 'desc';
 }
 
+export interface ProjectListQuery extends PaginationQuery {
+  state?: ProjectState;
+  search?: string;
+  tag?: string | string[];
+  folder?: string;
+  status?: ProjectConnectionStatus;
+  createdBy?: string;
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -119,6 +466,7 @@ export interface ApiResponse<T = any> {
 }
 
 export interface SchemaExtraction {
+  databases: DatabaseSchemaStats[];
   collections: CollectionSchema[];
   relationships: Relationship[];
   stats: {
@@ -128,7 +476,14 @@ export interface SchemaExtraction {
   };
 }
 
+export interface DatabaseSchemaStats {
+  name: string;
+  totalCollections: number;
+  totalDocuments: number;
+}
+
 export interface CollectionSchema {
+  database?: string;
   name: string;
   fields: FieldSchema[];
   indexes: any[];
@@ -148,6 +503,8 @@ export interface FieldSchema {
 }
 
 export interface Relationship {
+  /** References are only followed within one database */
+  database?: string;
   from: string;
   to: string;
   field: string;
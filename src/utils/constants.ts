@@ -19,20 +19,107 @@ export const CONSTANTS = {
   CACHE: {
     SCHEMA_TTL: 30 * 60, // 30 minutes
     CHAT_HISTORY_TTL: 90 * 24 * 60 * 60, // 90 days
-    CONNECTION_POOL_IDLE: 30 * 60 * 1000 // 30 minutes
+    CONNECTION_POOL_IDLE: 30 * 60 * 1000, // 30 minutes
+    MEMBER_ROLE_TTL: 60 // 1 minute
   },
   
+  ORGANIZATION_HEADER: 'X-Organization-Id',
+  
   MONGODB: {
     CONNECTION_TIMEOUT: 5000,
     MAX_POOL_SIZE: 10,
-    SAMPLE_SIZE: 100
+    SAMPLE_SIZE: 100,
+    AUTH_MECHANISMS: ['SCRAM-SHA-1', 'SCRAM-SHA-256', 'MONGODB-X509'],
+    READ_PREFERENCES: ['primary', 'primaryPreferred', 'secondary', 'secondaryPreferred', 'nearest'],
+    APP_NAME_MAX_LENGTH: 128,
+    MAX_PROJECT_DATABASES: 10,
+    // Cluster databases a project can never include
+    SYSTEM_DATABASES: ['admin', 'local', 'config']
   },
   
   VALIDATION: {
     PASSWORD_MIN_LENGTH: 8,
     PROJECT_NAME_MAX_LENGTH: 50,
     ORGANIZATION_NAME_MAX_LENGTH: 100,
-    MESSAGE_MAX_LENGTH: 1000
+    MESSAGE_MAX_LENGTH: 1000,
+    PROJECT_MAX_TAGS: 20,
+    PROJECT_TAG_MAX_LENGTH: 30,
+    PROJECT_FOLDER_MAX_DEPTH: 5,
+    PROJECT_FOLDER_SEGMENT_MAX_LENGTH: 50,
+    PROJECT_SEARCH_MAX_LENGTH: 100
+  },
+  
+  TWO_FACTOR: {
+    ISSUER: 'Dataverse',
+    DIGITS: 6,
+    PERIOD: 30, // seconds per code
+    DRIFT_WINDOW: 1, // accept codes one step before/after
+    RECOVERY_CODE_COUNT: 10,
+    CHALLENGE_EXPIRE: '5m'
+  },
+  
+  PASSWORD_RESET: {
+    TOKEN_TTL: 60 * 60 * 1000 // 1 hour
+  },
+  
+  EMAIL_VERIFICATION: {
+    TOKEN_TTL: 24 * 60 * 60 * 1000, // 24 hours
+    RESEND_COOLDOWN: 60 * 1000 // 1 minute between resends
+  },
+  
+  LOGIN_PROTECTION: {
+    DELAY_AFTER_ATTEMPTS: 3, // failures before delays kick in
+    BASE_DELAY: 2 * 1000, // doubles with every further failure
+    MAX_DELAY: 60 * 1000,
+    MAX_FAILED_ATTEMPTS: 10, // failures before the account is locked
+    LOCKOUT_DURATION: 30 * 60 * 1000, // 30 minutes
+    ATTEMPT_WINDOW: 60 * 60 * 1000 // failures older than this are forgotten
+  },
+  
+  INVITATIONS: {
+    TOKEN_TTL: 7 * 24 * 60 * 60 * 1000, // 7 days
+    RESEND_COOLDOWN: 60 * 1000 // 1 minute between resends
+  },
+  
+  DOMAIN_VERIFICATION: {
+    RECORD_PREFIX: '_dataverse-verification',
+    VALUE_PREFIX: 'dataverse-verification='
+  },
+  
+  PROJECT_DELETION: {
+    RETENTION: 30 * 24 * 60 * 60 * 1000, // 30 days in the trash before purge
+    SWEEP_INTERVAL: 60 * 60 * 1000 // check for expired projects hourly
+  },
+  
+  PROJECT_BUNDLE: {
+    FORMAT: 'dataverse-project',
+    VERSION: 1,
+    MIN_PASSPHRASE_LENGTH: 12,
+    PASSPHRASE_HEADER: 'x-bundle-passphrase'
+  },
+  
+  HEALTH_CHECK: {
+    INTERVAL: 5 * 60 * 1000, // ping every project's cluster every 5 minutes
+    CONCURRENCY: 5,
+    RETENTION: 30 * 24 * 60 * 60, // 30 days in seconds
+    // A status older than this many intervals no longer counts as current
+    STALE_AFTER_INTERVALS: 3,
+    // Without a current status, a schema synced this recently counts as connected
+    SYNC_CONNECTED_WINDOW: 5 * 60 * 1000,
+    RANGES: {
+      '24h': { duration: 24 * 60 * 60 * 1000, bucket: 60 * 60 * 1000 },
+      '7d': { duration: 7 * 24 * 60 * 60 * 1000, bucket: 6 * 60 * 60 * 1000 },
+      '30d': { duration: 30 * 24 * 60 * 60 * 1000, bucket: 24 * 60 * 60 * 1000 }
+    } as Record<string, { duration: number; bucket: number }>
+  },
+  
+  ORGANIZATION_DELETION: {
+    GRACE_PERIOD: 14 * 24 * 60 * 60 * 1000, // 14 days to restore
+    SWEEP_INTERVAL: 60 * 60 * 1000 // check for due deletions hourly
+  },
+  
+  ACCOUNT_DELETION: {
+    REAUTH_WINDOW: 10 * 60 * 1000 // SSO users must have signed in this recently
   },
   
   ROLES: {
@@ -41,6 +128,111 @@ export const CONSTANTS = {
     VIEWER: 'viewer'
   },
   
+  ROLE_LEVELS: {
+    viewer: 1,
+    editor: 2,
+    admin: 3
+  },
+  
+  // Permission catalog; custom roles bundle any of these
+  PERMISSIONS: {
+    'organization.manage': 'Edit organization settings, email domains and single sign-on',
+    'members.invite': 'Invite people and manage pending invitations',
+    'members.manage': 'Change member roles, unlock and remove members',
+    'roles.manage': 'Create and edit custom roles',
+    'teams.manage': 'Create teams and manage their members',
+    'service_accounts.manage': 'Manage service accounts and their tokens',
+    'project.create': 'Create and duplicate projects',
+    'project.update': 'Rename projects and change their AI key',
+    'project.delete': 'Delete projects',
+    'project.manage_access': 'Choose which teams can access a project',
+    'project.export': 'Export projects with their connection secrets as encrypted bundles',
+    'project.view_all': 'See every project regardless of team access',
+    'schema.refresh': 'Extract and refresh project schemas',
+    'chat.use': 'Chat with the AI assistant',
+    'query.raw': 'Run raw database queries',
+    'activity.view': 'See the organization activity feed',
+    'usage.view': 'See AI token usage and cost by member and project'
+  },
+  
+  // Built-in roles expressed as permissions. Viewers keep chat, query and
+  // schema refresh, which were never gated by role.
+  ROLE_PERMISSIONS: {
+    viewer: ['chat.use', 'query.raw', 'schema.refresh'],
+    editor: ['chat.use', 'query.raw', 'schema.refresh', 'project.create', 'project.update'],
+    admin: [
+      'organization.manage', 'members.invite', 'members.manage', 'roles.manage', 'teams.manage',
+      'service_accounts.manage', 'project.create', 'project.update', 'project.delete',
+      'project.manage_access', 'project.export', 'project.view_all', 'schema.refresh', 'chat.use', 'query.raw',
+      'activity.view', 'usage.view'
+    ]
+  },
+  
+  // Estimated USD per million tokens; only used for cost reporting
+  AI_PRICING: {
+    'openai/gpt-oss-20b': { input: 0.10, output: 0.50 },
+    'openai/gpt-oss-120b': { input: 0.15, output: 0.75 },
+    'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+    'mixtral-8x7b-32768': { input: 0.24, output: 0.24 }
+  } as Record<string, { input: number; output: number }>,
+  
+  AI_USAGE: {
+    // Rough characters-per-token ratio when the provider reports no usage
+    CHARS_PER_TOKEN: 4
+  },
+  
+  AI_BUDGET: {
+    // Percent of a budget at which admins are warned; reaching 100% is always reported
+    DEFAULT_WARNING_THRESHOLDS: [80],
+    MAX_WARNING_THRESHOLDS: 5
+  },
+  
+  ACTIVITY: {
+    RETENTION: 365 * 24 * 60 * 60, // 1 year in seconds
+    DEFAULT_LIMIT: 50,
+    MAX_LIMIT: 200
+  },
+  
+  SSO: {
+    STATE_TTL: 10 * 60 * 1000, // 10 minutes to complete the IdP round trip
+    DISCOVERY_CACHE_TTL: 60 * 60 * 1000, // 1 hour
+    DEFAULT_SCOPES: 'openid email profile',
+    DEFAULT_GROUPS_CLAIM: 'groups'
+  },
+  
+  API_TOKENS: {
+    PERSONAL_PREFIX: 'dv_pat_',
+    SERVICE_PREFIX: 'dv_sat_',
+    DEFAULT_EXPIRY_DAYS: 90,
+    MAX_EXPIRY_DAYS: 365
+  },
+  
+  // null means unlimited. settings.maxProjects and settings.features on an
+  // organization override or extend its plan.
+  PLANS: {
+    free: {
+      maxProjects: 3,
+      maxMembers: 5,
+      monthlyAiMessages: 500,
+      // Streaming predates plans, so existing organizations keep it
+      features: ['streaming']
+    },
+    pro: {
+      maxProjects: 25,
+      maxMembers: 50,
+      monthlyAiMessages: 10000,
+      features: ['streaming', 'export']
+    },
+    enterprise: {
+      maxProjects: null,
+      maxMembers: null,
+      monthlyAiMessages: null,
+      features: ['streaming', 'export']
+    }
+  } as Record<string, { maxProjects: number | null; maxMembers: number | null; monthlyAiMessages: number | null; features: string[] }>,
+  
+  DEFAULT_PLAN: 'free',
+  
   RESPONSE_MESSAGES: {
     SUCCESS: 'Operation successful',
     CREATED: 'Resource created successfully',
@@ -61,5 +253,7 @@ export const REGEX_PATTERNS = {
   EMAIL: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
   MONGODB_URI: /^mongodb(\+srv)?:\/\/.+/,
   OBJECT_ID: /^[0-9a-fA-F]{24}$/,
+  PEM_CERTIFICATE: /-----BEGIN CERTIFICATE-----[\s\S]+-----END CERTIFICATE-----/,
+  PEM_PRIVATE_KEY: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----[\s\S]+-----END (?:[A-Z]+ )*PRIVATE KEY-----/,
   COLLECTION_REFERENCE: /^[a-zA-Z_][a-zA-Z0-9_]*_(id|Id|ID|ref|Ref|REF)$/
 };
\ No newline at end of file
@@ -48,6 +48,20 @@ export class RateLimitError extends AppError {
   }
 }
 
+export class QuotaExceededError extends AppError {
+  constructor(message: string, details: {
+    quota?: string;
+    feature?: string;
+    scope?: string;
+    metric?: string;
+    limit?: number | null;
+    used?: number;
+    plan: string;
+  }) {
+    super(message, 402, details);
+  }
+}
+
 export class DatabaseConnectionError extends AppError {
   constructor(message: string = 'Database connection failed') {
     super(message, 503);